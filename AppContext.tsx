@@ -1,5 +1,25 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { AppState } from "react-native";
+import type { Output } from "@/lib/commands";
+import * as FileSystem from "expo-file-system";
+import { loadState, dropKeys, clearQuarantine, resealStorage, QuarantineEntry, StoredState } from "@/lib/local-store";
+import { applyLogOps, queryLogs, closeLogDatabase, rekeyLogDatabase, RECENT_LIMIT, LogKind } from "@/lib/log-store";
+import { writeQueue } from "@/lib/persistence";
+import { readVault, unlockVault, lockVault, createVault, removeVault, resealFile, sealNewFile, VaultStatus } from "@/lib/vault";
+import { VaultLockScreen } from "@/components/VaultLockScreen";
+import { createBackup, readBackup, resealBackups, planRestore, applyRestorePlan, AppData, BackupFile, RestoreOptions, RestorePlan } from "@/lib/backup";
+import { planPrune, hasLimits, LOG_KINDS, PruneResult, RetentionPolicies, RetentionPolicy } from "@/lib/retention";
+import { ulid } from "@/lib/ids";
+import { FEATURE, isEnabled, planFeatureChange, planFeatureRemoval, formatConfigValue, ruleViolations, FeaturePlan, RemovalPlan } from "@/lib/features";
+import { captureProfile, applyEntries, diffProfile, ProfilePlan } from "@/lib/profiles";
+import { auditChanges } from "@/lib/audit";
+import { recordUndo, undoLast, redoLast, clearUndoHistory } from "@/lib/undo";
+import type { ImportPlan } from "@/lib/manifest";
+import { useFeature } from "@/hooks/useFeature";
+import {
+  featureStore, gpsStore, photoStore, commandStore, emailStore, scriptStore, scheduleStore, profileStore, activeProfileStore, aliasStore, variableStore, auditStore, undoStore, redoStore,
+  useFeatures, useGpsLogs, usePhotoLogs, useCommandLogs, useEmail, useStoreValue, EmailState,
+} from "@/context/stores";
 
 export interface Feature {
   id: string;
@@ -8,8 +28,27 @@ export interface Feature {
   enabled: boolean;
   category: string;
   addedAt: string;
+  /** Ids of features that must be on while this one is. */
+  requires?: string[];
+  /** Ids of features that cannot be on at the same time as this one. */
+  conflictsWith?: string[];
+  /** Settings the feature takes; values not in `config` use the parameter's default. */
+  params?: ConfigParam[];
+  config?: Record<string, ConfigValue>;
 }
 
+export type ConfigValue = number | string;
+
+/** Bounds are inclusive; durations are in milliseconds. */
+export type ConfigParam = { key: string; label: string } & (
+  | { type: "number"; default: number; min?: number; max?: number }
+  | { type: "duration"; default: number; min?: number; max?: number }
+  | { type: "enum"; default: string; options: string[] }
+  | { type: "string"; default: string; maxLength?: number }
+);
+
+export type FeatureLinks = Pick<Feature, "requires" | "conflictsWith">;
+
 export interface GPSLog {
   id: string;
   lat: number;
@@ -30,6 +69,10 @@ export interface CommandLog {
   result: string;
   timestamp: string;
   type: "success" | "error" | "info";
+  /** Set when the command was not typed by the user. */
+  source?: "script" | "schedule";
+  /** Structured form of `result`, when the command returned one. */
+  output?: Output;
 }
 
 export interface EmailQueue {
@@ -40,18 +83,82 @@ export interface EmailQueue {
   sent: boolean;
 }
 
-const DEFAULT_FEATURES: Feature[] = [
-  { id: "f001", name: "GPS Tracking", description: "Real-time location logging", enabled: true, category: "Sensors", addedAt: new Date().toISOString() },
-  { id: "f002", name: "Camera Capture", description: "Offline photo capture", enabled: true, category: "Sensors", addedAt: new Date().toISOString() },
-  { id: "f003", name: "Email Sync", description: "Sync data when online", enabled: true, category: "Network", addedAt: new Date().toISOString() },
-  { id: "f004", name: "Dark Mode", description: "Always-on dark interface", enabled: true, category: "UI", addedAt: new Date().toISOString() },
-  { id: "f005", name: "Haptic Feedback", description: "Tactile button responses", enabled: true, category: "UI", addedAt: new Date().toISOString() },
-  { id: "f006", name: "Auto GPS Log", description: "Log GPS every 30 seconds", enabled: false, category: "Sensors", addedAt: new Date().toISOString() },
-  { id: "f007", name: "Battery Monitor", description: "Track battery usage", enabled: false, category: "System", addedAt: new Date().toISOString() },
-  { id: "f008", name: "Network Watch", description: "Monitor connectivity state", enabled: true, category: "Network", addedAt: new Date().toISOString() },
-  { id: "f009", name: "Command History", description: "Save all command logs", enabled: true, category: "System", addedAt: new Date().toISOString() },
-  { id: "f010", name: "Photo Compression", description: "Compress photos on save", enabled: false, category: "Sensors", addedAt: new Date().toISOString() },
-];
+/** A change in connectivity seen by Network Watch. */
+export interface NetworkEvent {
+  id: string;
+  online: boolean;
+  /** Connection type reported by NetInfo, e.g. wifi or cellular. */
+  type: string;
+  at: string;
+}
+
+export interface Script {
+  id: string;
+  name: string;
+  steps: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Schedule {
+  id: string;
+  command: string;
+  /** `every <duration>` or a 5-field cron expression; see lib/scheduler. */
+  spec: string;
+  createdAt: string;
+  lastRunAt?: string;
+  nextRunAt: string;
+}
+
+/** A feature's state as saved in a profile. */
+export interface ProfileEntry {
+  id: string;
+  enabled: boolean;
+  config?: Record<string, ConfigValue>;
+}
+
+/** A named set of feature states, switched to in one step. */
+export interface FeatureProfile {
+  id: string;
+  name: string;
+  /** Every feature at the time of saving; features added since are left alone when applying. */
+  features: ProfileEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Where a feature change came from. */
+export type AuditSource = "command" | "schedule" | "admin" | "sensors" | "profile" | "import" | "undo" | "restore";
+
+/** One change to a feature, kept in the audit trail. */
+export interface AuditEntry {
+  id: string;
+  at: string;
+  featureId: string;
+  /** The name at the time, so entries for removed features stay readable. */
+  featureName: string;
+  action: "add" | "remove" | "enable" | "disable" | "config";
+  source: AuditSource;
+  /** The setting that changed, for `config` entries. */
+  key?: string;
+  /** Values as shown to the user, e.g. "off" and "on", or "30s" and "1m". */
+  from?: string;
+  to?: string;
+}
+
+/** A recorded mutation that can be reverted and re-applied. */
+export interface UndoEntry {
+  id: string;
+  label: string;
+  at: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+const MAX_NETWORK_EVENTS = 50;
+const MAX_AUDIT_ENTRIES = 500;
+
+const LEGACY_LOG_KEYS = ["gpsLogs", "photoLogs", "commandLogs"] as const;
 
 interface AppContextValue {
   features: Feature[];
@@ -59,145 +166,723 @@ interface AppContextValue {
   photoLogs: PhotoLog[];
   commandLogs: CommandLog[];
   emailQueue: EmailQueue[];
+  scripts: Script[];
+  schedules: Schedule[];
+  profiles: FeatureProfile[];
+  /** Id of the profile applied or saved last. The features may have changed since; see `matchesProfile`. */
+  activeProfile: string | null;
+  /** Command aliases by name, expanded as the first word of a command. */
+  aliases: Record<string, string>;
+  /** Values substituted for `$name` in commands. */
+  variables: Record<string, string>;
   emailAddress: string;
+  /** Last connectivity seen by Network Watch; assumed online while it is off. */
   isOnline: boolean;
+  /** Connectivity changes, newest first. */
+  networkEvents: NetworkEvent[];
+  /** Feature changes, newest first; the oldest are dropped past 500. */
+  featureAudit: AuditEntry[];
+  /** Records a change in connectivity reported by Network Watch. */
+  recordConnectivity: (online: boolean, type: string) => void;
+  /** Stored data that failed to load and was set aside for recovery. */
+  quarantine: QuarantineEntry[];
+  discardQuarantine: () => void;
+  /** Changes are waiting to be written. */
+  savePending: boolean;
+  /** Why saving last failed; changes are kept in memory and retried until it succeeds. */
+  saveError: string | null;
+  retrySave: () => void;
+  /** Writes all data, logs and photos into a new archive in the backups folder. */
+  backUp: () => Promise<BackupFile>;
+  /** Reads an archive and works out what restoring it would change. */
+  previewRestore: (uri: string, options: RestoreOptions) => Promise<RestorePlan>;
+  /** Applies a previewed restore. It cannot be undone, so the undo history is cleared. */
+  restoreBackup: (plan: RestorePlan) => Promise<void>;
+  /** Whether stored data and photos are encrypted with a passphrase. */
+  vault: VaultStatus;
+  /** Encrypts everything stored with a key derived from `passphrase`. */
+  enableVault: (passphrase: string) => Promise<void>;
+  /** Rejects when the passphrase is wrong; otherwise stores everything in plain text again. */
+  disableVault: (passphrase: string) => Promise<void>;
+  /** Writes pending changes, forgets the key and shows the unlock screen. */
+  lock: () => Promise<void>;
+  /** How long each kind of log is kept; kinds without a policy keep everything. */
+  retention: RetentionPolicies;
+  /** Sets the policy for one kind of log; `null` keeps everything again. */
+  setRetention: (kind: LogKind, policy: RetentionPolicy | null) => void;
+  /** Deletes the logs that break their policy, or with `dryRun` only reports them. */
+  pruneLogs: (dryRun?: boolean) => Promise<PruneResult[]>;
   setEmailAddress: (email: string) => void;
-  toggleFeature: (id: string) => void;
-  addFeature: (name: string, description: string, category: string) => void;
-  removeFeature: (id: string) => void;
+  /**
+   * Flips a feature along with everything its requirements and conflicts
+   * imply. Changes to other features are only made with `cascade`; the plan
+   * is returned either way, so callers can explain what did not happen.
+   */
+  toggleFeature: (id: string, source: AuditSource, cascade?: boolean) => FeaturePlan;
+  /** Like `toggleFeature`, but sets the state instead of flipping it; a feature already in that state is left alone. */
+  setFeatureEnabled: (id: string, enabled: boolean, source: AuditSource, cascade?: boolean) => FeaturePlan;
+  /** Sets one of a feature's parameters; `null` goes back to its default. Values must already be valid. */
+  setFeatureConfig: (id: string, key: string, value: ConfigValue | null, source: AuditSource) => void;
+  addFeature: (name: string, description: string, category: string, source: AuditSource, links?: FeatureLinks) => void;
+  /**
+   * Removes a feature after turning off what requires it. A feature other
+   * features require is only removed with `cascade`; the plan says which.
+   */
+  removeFeature: (id: string, source: AuditSource, cascade?: boolean) => RemovalPlan;
+  /** Replaces the features with an import's result as one undoable change; callers refuse plans with problems. */
+  importFeatures: (plan: ImportPlan) => void;
   addGPSLog: (log: Omit<GPSLog, "id" | "timestamp">) => void;
   addPhotoLog: (uri: string) => void;
-  addCommandLog: (command: string, result: string, type: CommandLog["type"]) => void;
+  addCommandLog: (command: string, result: string, type: CommandLog["type"], extra?: Pick<CommandLog, "source" | "output">) => void;
   addEmailQueue: (subject: string, body: string) => void;
+  markEmailsSent: (ids: string[]) => void;
   clearCommandLogs: () => void;
   clearGPSLogs: () => void;
+  saveScript: (name: string, steps: string[]) => void;
+  deleteScript: (name: string) => void;
+  /** Saves the current feature states under `name`, replacing a profile with that name, and makes it active. */
+  saveProfile: (name: string) => FeatureProfile;
+  /** Puts back a profile's feature states, unless that would break a requirement or conflict; returns what changed. */
+  applyProfile: (id: string) => ProfilePlan;
+  deleteProfile: (id: string) => void;
+  addSchedule: (spec: string, command: string, nextRunAt: string) => Schedule;
+  removeSchedule: (id: string) => void;
+  markScheduleRun: (id: string, ranAt: string, nextRunAt: string) => void;
+  setAlias: (name: string, value: string) => void;
+  removeAlias: (name: string) => void;
+  setVariable: (name: string, value: string) => void;
+  removeVariable: (name: string) => void;
+  undoStack: UndoEntry[];
+  redoStack: UndoEntry[];
+  /** Reverts the latest recorded mutation; returns it, or null when there is nothing to undo. */
+  undo: () => UndoEntry | null;
+  redo: () => UndoEntry | null;
 }
 
-const AppContext = createContext<AppContextValue | null>(null);
+/** Keys of `useApp()` served from the domain stores rather than the provider. */
+type StoreKey = "features" | "gpsLogs" | "photoLogs" | "commandLogs" | "emailQueue" | "emailAddress";
+
+/** Everything in `useApp()` except the domain stores. */
+export type AppCore = Omit<AppContextValue, StoreKey>;
+
+const AppContext = createContext<AppCore | null>(null);
 
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [features, setFeatures] = useState<Feature[]>(DEFAULT_FEATURES);
-  const [gpsLogs, setGpsLogs] = useState<GPSLog[]>([]);
-  const [photoLogs, setPhotoLogs] = useState<PhotoLog[]>([]);
-  const [commandLogs, setCommandLogs] = useState<CommandLog[]>([]);
-  const [emailQueue, setEmailQueue] = useState<EmailQueue[]>([]);
-  const [emailAddress, setEmailAddressState] = useState("");
-  const [isOnline, setIsOnline] = useState(true);
+  const scripts = useStoreValue(scriptStore);
+  const schedules = useStoreValue(scheduleStore);
+  const profiles = useStoreValue(profileStore);
+  const activeProfile = useStoreValue(activeProfileStore);
+  const aliases = useStoreValue(aliasStore);
+  const variables = useStoreValue(variableStore);
+  const featureAudit = useStoreValue(auditStore);
+  const [retention, setRetentionState] = useState<RetentionPolicies>({});
+  const [networkEvents, setNetworkEvents] = useState<NetworkEvent[]>([]);
+  const watchingNetwork = useFeature(FEATURE.networkWatch);
+  const isOnline = !watchingNetwork || (networkEvents[0]?.online ?? true);
+  const undoStack = useStoreValue(undoStore);
+  const redoStack = useStoreValue(redoStore);
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>([]);
+  const [saveStatus, setSaveStatus] = useState(writeQueue.getStatus());
+  const [vault, setVault] = useState<VaultStatus>("off");
   const [loaded, setLoaded] = useState(false);
 
+  // Collections that change often live in their own stores, so that a new log only re-renders its subscribers.
+  const setFeatures = featureStore.set;
+  const setGpsLogs = gpsStore.set;
+  const setPhotoLogs = photoStore.set;
+  const setCommandLogs = commandStore.set;
+  const setEmailQueue = (update: (prev: EmailQueue[]) => EmailQueue[]) => emailStore.set(prev => ({ ...prev, queue: update(prev.queue) }));
+  // Commands write these and may read them back in the next step of a script, before React has rendered.
+  const setScripts = scriptStore.set;
+  const setSchedules = scheduleStore.set;
+  const setProfiles = profileStore.set;
+  const setActiveProfile = activeProfileStore.set;
+  const setAliases = aliasStore.set;
+  const setVariables = variableStore.set;
+  const setFeatureAudit = auditStore.set;
+
+  const loadRecentLogs = async () => {
+    const [g, p, c] = await Promise.all([
+      queryLogs("gps", { limit: RECENT_LIMIT }),
+      queryLogs("photo", { limit: RECENT_LIMIT }),
+      queryLogs("command", { limit: RECENT_LIMIT }),
+    ]);
+    setGpsLogs(g);
+    setPhotoLogs(p);
+    setCommandLogs(c);
+  };
+
+  const load = async () => {
+    writeQueue.resume();
+    let state: Partial<StoredState> = {};
+    try {
+      const result = await loadState();
+      state = result.state;
+      if (state.features) setFeatures(state.features);
+      emailStore.set(prev => ({ queue: state.emailQueue ?? prev.queue, address: state.emailAddress ?? prev.address }));
+      if (state.scripts) setScripts(state.scripts);
+      if (state.schedules) setSchedules(state.schedules);
+      if (state.profiles) setProfiles(state.profiles);
+      if (state.activeProfile !== undefined) setActiveProfile(state.activeProfile);
+      if (state.aliases) setAliases(state.aliases);
+      if (state.variables) setVariables(state.variables);
+      if (state.retention) setRetentionState(state.retention);
+      if (state.networkEvents) setNetworkEvents(state.networkEvents);
+      if (state.featureAudit) setFeatureAudit(state.featureAudit);
+      setQuarantine(result.quarantine);
+    } catch (e) {
+      console.warn("Failed to load saved data", e);
+    }
+    try {
+      // Older builds kept capped log arrays in AsyncStorage; move them to the log database once.
+      const legacy = LEGACY_LOG_KEYS.filter(key => state[key]);
+      if (legacy.length) {
+        await applyLogOps([
+          { type: "insert", kind: "gps", records: state.gpsLogs ?? [] },
+          { type: "insert", kind: "photo", records: state.photoLogs ?? [] },
+          { type: "insert", kind: "command", records: state.commandLogs ?? [] },
+        ]);
+        await dropKeys(legacy);
+      }
+      await loadRecentLogs();
+    } catch (e) {
+      console.warn("Failed to open the log database", e);
+    }
+    setLoaded(true);
+  };
+
+  // With the vault on, nothing is read until it is unlocked.
   useEffect(() => {
     (async () => {
+      let status: VaultStatus = "off";
       try {
-        const [f, g, p, c, e, em] = await Promise.all([
-          AsyncStorage.getItem("features"),
-          AsyncStorage.getItem("gpsLogs"),
-          AsyncStorage.getItem("photoLogs"),
-          AsyncStorage.getItem("commandLogs"),
-          AsyncStorage.getItem("emailQueue"),
-          AsyncStorage.getItem("emailAddress"),
-        ]);
-        if (f) setFeatures(JSON.parse(f));
-        if (g) setGpsLogs(JSON.parse(g));
-        if (p) setPhotoLogs(JSON.parse(p));
-        if (c) setCommandLogs(JSON.parse(c));
-        if (e) setEmailQueue(JSON.parse(e));
-        if (em) setEmailAddressState(em);
-      } catch (_) {}
-      setLoaded(true);
+        status = await readVault();
+      } catch (e) {
+        console.warn("Failed to read vault settings", e);
+      }
+      setVault(status);
+      if (status !== "locked") await load();
     })();
   }, []);
 
   useEffect(() => {
     if (!loaded) return;
-    AsyncStorage.setItem("features", JSON.stringify(features));
-  }, [features, loaded]);
+    const unsubscribe = [
+      featureStore.subscribe(() => writeQueue.set("features", featureStore.get())),
+      emailStore.subscribe(() => {
+        const { queue, address } = emailStore.get();
+        writeQueue.set("emailQueue", queue);
+        writeQueue.set("emailAddress", address);
+      }),
+    ];
+    return () => unsubscribe.forEach(u => u());
+  }, [loaded]);
 
   useEffect(() => {
     if (!loaded) return;
-    AsyncStorage.setItem("gpsLogs", JSON.stringify(gpsLogs));
-  }, [gpsLogs, loaded]);
+    writeQueue.set("scripts", scripts);
+  }, [scripts, loaded]);
 
   useEffect(() => {
     if (!loaded) return;
-    AsyncStorage.setItem("photoLogs", JSON.stringify(photoLogs));
-  }, [photoLogs, loaded]);
+    writeQueue.set("schedules", schedules);
+  }, [schedules, loaded]);
 
   useEffect(() => {
     if (!loaded) return;
-    AsyncStorage.setItem("commandLogs", JSON.stringify(commandLogs));
-  }, [commandLogs, loaded]);
+    writeQueue.set("profiles", profiles);
+    writeQueue.set("activeProfile", activeProfile);
+  }, [profiles, activeProfile, loaded]);
 
   useEffect(() => {
     if (!loaded) return;
-    AsyncStorage.setItem("emailQueue", JSON.stringify(emailQueue));
-  }, [emailQueue, loaded]);
+    writeQueue.set("aliases", aliases);
+  }, [aliases, loaded]);
 
-  function uid() {
-    return Math.random().toString(36).slice(2) + Date.now().toString(36);
-  }
+  useEffect(() => {
+    if (!loaded) return;
+    writeQueue.set("variables", variables);
+  }, [variables, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    writeQueue.set("retention", retention);
+  }, [retention, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    writeQueue.set("networkEvents", networkEvents);
+  }, [networkEvents, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    writeQueue.set("featureAudit", featureAudit);
+  }, [featureAudit, loaded]);
+
+  useEffect(() => writeQueue.subscribe(setSaveStatus), []);
+
+  // The app may be killed at any point once it is in the background, so write pending changes right away.
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", next => {
+      if (next !== "active") writeQueue.flush();
+    });
+    return () => sub.remove();
+  }, []);
 
   const setEmailAddress = (email: string) => {
-    setEmailAddressState(email);
-    AsyncStorage.setItem("emailAddress", email);
+    emailStore.set(prev => ({ ...prev, address: email }));
+  };
+
+  const addSchedule = (spec: string, command: string, nextRunAt: string) => {
+    const entry: Schedule = { id: ulid(), spec, command, createdAt: new Date().toISOString(), nextRunAt };
+    setSchedules(prev => [...prev, entry]);
+    return entry;
+  };
+
+  const removeSchedule = (id: string) => {
+    setSchedules(prev => prev.filter(s => s.id !== id));
+  };
+
+  const markScheduleRun = (id: string, ranAt: string, nextRunAt: string) => {
+    setSchedules(prev => prev.map(s => s.id === id ? { ...s, lastRunAt: ranAt, nextRunAt } : s));
+  };
+
+  const retrySave = () => {
+    writeQueue.flush();
   };
 
-  const toggleFeature = (id: string) => {
-    setFeatures(prev => prev.map(f => f.id === id ? { ...f, enabled: !f.enabled } : f));
+  const appData = (): AppData => {
+    const { queue, address } = emailStore.get();
+    return {
+      features: featureStore.get(), emailQueue: queue, scripts: scriptStore.get(), schedules: scheduleStore.get(), profiles: profileStore.get(),
+      activeProfile: activeProfileStore.get(), aliases: aliasStore.get(), variables: variableStore.get(), emailAddress: address, retention, networkEvents,
+      featureAudit: auditStore.get(),
+    };
   };
 
-  const addFeature = (name: string, description: string, category: string) => {
+  const backUp = () => createBackup(appData());
+
+  const previewRestore = async (uri: string, options: RestoreOptions) => planRestore(await readBackup(uri), appData(), options);
+
+  const restoreBackup = async (plan: RestorePlan) => {
+    await applyRestorePlan(plan);
+    const { values } = plan;
+    // The restored trail goes in first, so that the restore's own entries end up on top of it.
+    if (values.featureAudit) setFeatureAudit(values.featureAudit.slice(0, MAX_AUDIT_ENTRIES));
+    if (values.features) changeFeatures("restore", () => values.features!);
+    if (values.emailQueue) setEmailQueue(() => values.emailQueue!);
+    if (values.scripts) setScripts(values.scripts);
+    if (values.schedules) setSchedules(values.schedules);
+    if (values.profiles) setProfiles(values.profiles);
+    if (values.activeProfile !== undefined) setActiveProfile(values.activeProfile);
+    if (values.networkEvents) setNetworkEvents(values.networkEvents.slice(0, MAX_NETWORK_EVENTS));
+    if (values.aliases) setAliases(values.aliases);
+    if (values.variables) setVariables(values.variables);
+    if (values.retention) setRetentionState(values.retention);
+    if (values.emailAddress !== undefined) setEmailAddress(values.emailAddress);
+    await loadRecentLogs();
+    clearUndoHistory();
+  };
+
+  const resealPhotos = async (key: Uint8Array | null) => {
+    for (const log of await queryLogs("photo", { limit: -1 })) await resealFile(log.uri, key);
+  };
+
+  const unlock = async (passphrase: string) => {
+    if (!(await unlockVault(passphrase))) return false;
+    setVault("unlocked");
+    await load();
+    return true;
+  };
+
+  const lock = async () => {
+    await writeQueue.flush();
+    if (writeQueue.getStatus().pending) throw new Error("Unsaved changes could not be written, so the vault stays unlocked.");
+    // The persistence subscriptions are still attached until the next render; the resets below must not reach storage.
+    writeQueue.suspend();
+    setLoaded(false);
+    lockVault();
+    await closeLogDatabase();
+    setVault("locked");
+    featureStore.reset();
+    gpsStore.reset();
+    photoStore.reset();
+    commandStore.reset();
+    emailStore.reset();
+    scriptStore.reset();
+    scheduleStore.reset();
+    profileStore.reset();
+    activeProfileStore.reset();
+    aliasStore.reset();
+    variableStore.reset();
+    auditStore.reset();
+    setRetentionState({});
+    setNetworkEvents([]);
+    setQuarantine([]);
+    clearUndoHistory();
+  };
+
+  // The vault settings are saved first: until everything is re-encrypted, plain and encrypted values both still read.
+  const enableVault = async (passphrase: string) => {
+    await writeQueue.flush();
+    const key = await createVault(passphrase);
+    try {
+      await rekeyLogDatabase(key);
+    } catch (e) {
+      await removeVault();
+      throw e;
+    }
+    await resealStorage(key);
+    await resealPhotos(key);
+    await resealBackups(key);
+    setVault("unlocked");
+  };
+
+  const disableVault = async (passphrase: string) => {
+    if (!(await unlockVault(passphrase))) throw new Error("Wrong passphrase.");
+    await writeQueue.flush();
+    await rekeyLogDatabase(null);
+    await resealStorage(null);
+    await resealPhotos(null);
+    await resealBackups(null);
+    await removeVault();
+    setVault("off");
+  };
+
+  const setRetention = (kind: LogKind, policy: RetentionPolicy | null) => {
+    setRetentionState(({ [kind]: _, ...rest }) => (policy ? { ...rest, [kind]: policy } : rest));
+  };
+
+  // Pruned logs are deleted outright rather than hidden, so pruning cannot be undone.
+  const pruneLogs = async (dryRun = false) => {
+    const results: PruneResult[] = [];
+    for (const kind of LOG_KINDS) {
+      const policy = retention[kind];
+      if (hasLimits(policy)) results.push(await planPrune(kind, policy));
+    }
+    if (dryRun) return results;
+
+    for (const { kind, ids } of results) {
+      if (ids.length === 0) continue;
+      writeQueue.log({ type: "delete", kind, ids });
+      const gone = new Set(ids);
+      const keep = <T extends { id: string }>(prev: T[]) => prev.filter(l => !gone.has(l.id));
+      if (kind === "gps") setGpsLogs(keep);
+      if (kind === "photo") setPhotoLogs(keep);
+      if (kind === "command") setCommandLogs(keep);
+    }
+    // Photo files go once their logs are gone, so a log never points at a missing file.
+    await writeQueue.flush();
+    for (const uri of results.flatMap(r => r.files)) {
+      try {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      } catch (e) {
+        console.warn("Failed to delete photo", e);
+      }
+    }
+    return results;
+  };
+
+  const discardQuarantine = () => {
+    setQuarantine([]);
+    clearQuarantine();
+  };
+
+  const setAlias = (name: string, value: string) => {
+    setAliases(prev => ({ ...prev, [name]: value }));
+  };
+
+  const removeAlias = (name: string) => {
+    setAliases(({ [name]: _, ...rest }) => rest);
+  };
+
+  const setVariable = (name: string, value: string) => {
+    setVariables(prev => ({ ...prev, [name]: value }));
+  };
+
+  const removeVariable = (name: string) => {
+    setVariables(({ [name]: _, ...rest }) => rest);
+  };
+
+
+  /** Changes the features and adds what changed to the audit trail. */
+  const changeFeatures = (source: AuditSource, update: (prev: Feature[]) => Feature[]) => {
+    const before = featureStore.get();
+    setFeatures(update);
+    const entries = auditChanges(before, featureStore.get(), source);
+    if (entries.length) setFeatureAudit(prev => [...entries, ...prev].slice(0, MAX_AUDIT_ENTRIES));
+  };
+
+  /** `recordUndo` for feature changes: the change itself is audited under `source`, undoing and redoing it under "undo". */
+  const recordFeatures = (label: string, source: AuditSource, redo: (prev: Feature[]) => Feature[], undo: (prev: Feature[]) => Feature[]) => {
+    let done = false;
+    recordUndo(
+      label,
+      () => {
+        changeFeatures(done ? "undo" : source, redo);
+        done = true;
+      },
+      () => changeFeatures("undo", undo)
+    );
+  };
+
+  const setFeatureEnabled = (id: string, enabled: boolean, source: AuditSource, cascade = false): FeaturePlan => {
+    const features = featureStore.get();
+    const feature = features.find(f => f.id === id);
+    if (!feature) return { changes: [], blocked: `Feature not found: ${id}` };
+    const plan = planFeatureChange(features, id, enabled);
+    if (plan.blocked || plan.changes.length === 0 || (plan.changes.length > 1 && !cascade)) return plan;
+    const apply = (forward: boolean) => (prev: Feature[]) => {
+      const next = new Map(plan.changes.map(c => [c.feature.id, forward ? c.enabled : !c.enabled]));
+      return prev.map(f => next.has(f.id) ? { ...f, enabled: next.get(f.id)! } : f);
+    };
+    const others = plan.changes.length - 1;
+    recordFeatures(`${enabled ? "Enabled" : "Disabled"} ${feature.name}${others ? ` and ${others} more` : ""}`, source, apply(true), apply(false));
+    return plan;
+  };
+
+  const toggleFeature = (id: string, source: AuditSource, cascade = false): FeaturePlan => {
+    const feature = featureStore.get().find(f => f.id === id);
+    if (!feature) return { changes: [], blocked: `Feature not found: ${id}` };
+    return setFeatureEnabled(id, !feature.enabled, source, cascade);
+  };
+
+  const setFeatureConfig = (id: string, key: string, value: ConfigValue | null, source: AuditSource) => {
+    const feature = featureStore.get().find(f => f.id === id);
+    const param = feature?.params?.find(p => p.key === key);
+    if (!feature || !param) return;
+    const previous = feature.config?.[key];
+    const put = (next: ConfigValue | undefined) => (prev: Feature[]) =>
+      prev.map(f => {
+        if (f.id !== id) return f;
+        const { [key]: _, ...rest } = f.config ?? {};
+        return { ...f, config: next === undefined ? rest : { ...rest, [key]: next } };
+      });
+    const label = value === null ? `Reset ${feature.name} ${param.label}` : `Set ${feature.name} ${param.label} to ${formatConfigValue(param, value)}`;
+    recordFeatures(label, source, put(value ?? undefined), put(previous));
+  };
+
+  const addFeature = (name: string, description: string, category: string, source: AuditSource, links: FeatureLinks = {}) => {
     const newFeature: Feature = {
-      id: uid(),
+      id: ulid(),
       name,
       description,
       enabled: false,
       category,
       addedAt: new Date().toISOString(),
+      ...links,
+    };
+    recordFeatures(
+      `Added ${name}`,
+      source,
+      prev => [...prev, newFeature],
+      prev => prev.filter(f => f.id !== newFeature.id)
+    );
+  };
+
+  const removeFeature = (id: string, source: AuditSource, cascade = false): RemovalPlan => {
+    const features = featureStore.get();
+    const index = features.findIndex(f => f.id === id);
+    if (index === -1) return { changes: [], dependents: [], blocked: `Feature not found: ${id}` };
+    const plan = planFeatureRemoval(features, id);
+    if (plan.blocked || (plan.dependents.length && !cascade)) return plan;
+    const removed = features[index];
+    const others = plan.changes.filter(c => c.feature.id !== id);
+    const switchOthers = (forward: boolean) => (prev: Feature[]) => {
+      const next = new Map(others.map(c => [c.feature.id, forward ? c.enabled : !c.enabled]));
+      return prev.map(f => next.has(f.id) ? { ...f, enabled: next.get(f.id)! } : f);
     };
-    setFeatures(prev => [...prev, newFeature]);
+    recordFeatures(
+      `Removed ${removed.name}${others.length ? ` and disabled ${others.length} more` : ""}`,
+      source,
+      prev => switchOthers(true)(prev).filter(f => f.id !== id),
+      prev => {
+        const restored = switchOthers(false)(prev);
+        return [...restored.slice(0, index), removed, ...restored.slice(index)];
+      }
+    );
+    return plan;
   };
 
-  const removeFeature = (id: string) => {
-    setFeatures(prev => prev.filter(f => f.id !== id));
+  const importFeatures = (plan: ImportPlan) => {
+    const before = featureStore.get();
+    const count = plan.added.length + (plan.strategy === "add" ? 0 : plan.changed.length) + plan.removed.length;
+    recordFeatures(`Imported features (${count} change${count === 1 ? "" : "s"})`, "import", () => plan.features, () => before);
   };
 
   const addGPSLog = (log: Omit<GPSLog, "id" | "timestamp">) => {
-    const entry: GPSLog = { ...log, id: uid(), timestamp: new Date().toISOString() };
-    setGpsLogs(prev => [entry, ...prev].slice(0, 200));
+    const entry: GPSLog = { ...log, id: ulid(), timestamp: new Date().toISOString() };
+    setGpsLogs(prev => [entry, ...prev].slice(0, RECENT_LIMIT));
+    writeQueue.log({ type: "insert", kind: "gps", records: [entry] });
   };
 
   const addPhotoLog = (uri: string) => {
-    const entry: PhotoLog = { id: uid(), uri, timestamp: new Date().toISOString() };
-    setPhotoLogs(prev => [entry, ...prev].slice(0, 100));
+    const entry: PhotoLog = { id: ulid(), uri, timestamp: new Date().toISOString() };
+    setPhotoLogs(prev => [entry, ...prev].slice(0, RECENT_LIMIT));
+    sealNewFile(uri).catch(e => console.warn("Failed to encrypt photo", e));
+    writeQueue.log({ type: "insert", kind: "photo", records: [entry] });
   };
 
-  const addCommandLog = (command: string, result: string, type: CommandLog["type"]) => {
-    const entry: CommandLog = { id: uid(), command, result, type, timestamp: new Date().toISOString() };
-    setCommandLogs(prev => [entry, ...prev].slice(0, 500));
+  const addCommandLog = (command: string, result: string, type: CommandLog["type"], extra: Pick<CommandLog, "source" | "output"> = {}) => {
+    const entry: CommandLog = { id: ulid(), command, result, type, timestamp: new Date().toISOString(), ...extra };
+    setCommandLogs(prev => [entry, ...prev].slice(0, RECENT_LIMIT));
+    // With Command History off, the log only lasts until the app restarts.
+    if (isEnabled(FEATURE.commandHistory)) writeQueue.log({ type: "insert", kind: "command", records: [entry] });
   };
 
   const addEmailQueue = (subject: string, body: string) => {
-    const entry: EmailQueue = { id: uid(), subject, body, createdAt: new Date().toISOString(), sent: false };
+    const entry: EmailQueue = { id: ulid(), subject, body, createdAt: new Date().toISOString(), sent: false };
     setEmailQueue(prev => [...prev, entry]);
   };
 
-  const clearCommandLogs = () => setCommandLogs([]);
-  const clearGPSLogs = () => setGpsLogs([]);
+  const markEmailsSent = (ids: string[]) => {
+    const sent = new Set(ids);
+    setEmailQueue(prev => prev.map(e => (sent.has(e.id) ? { ...e, sent: true } : e)));
+  };
+
+  const recordConnectivity = (online: boolean, type: string) => {
+    const event: NetworkEvent = { id: ulid(), online, type, at: new Date().toISOString() };
+    setNetworkEvents(prev => [event, ...prev].slice(0, MAX_NETWORK_EVENTS));
+  };
+
+  // Undoing a clear puts the old entries back behind anything logged since.
+  // Cleared rows stay hidden in the log database under a batch id so that undo can bring back every page, not just the window in memory.
+  const clearCommandLogs = () => {
+    const cleared = commandStore.get();
+    const ids = new Set(cleared.map(l => l.id));
+    const batch = ulid();
+    const until = new Date().toISOString();
+    recordUndo(
+      `Cleared ${cleared.length} command logs`,
+      () => {
+        setCommandLogs(prev => prev.filter(l => !ids.has(l.id)));
+        writeQueue.log({ type: "hide", kind: "command", batch, until });
+      },
+      () => {
+        setCommandLogs(prev => [...prev, ...cleared].slice(0, RECENT_LIMIT));
+        writeQueue.log({ type: "restore", kind: "command", batch });
+      }
+    );
+  };
+
+  const clearGPSLogs = () => {
+    const cleared = gpsStore.get();
+    const ids = new Set(cleared.map(l => l.id));
+    const batch = ulid();
+    const until = new Date().toISOString();
+    recordUndo(
+      `Cleared ${cleared.length} GPS logs`,
+      () => {
+        setGpsLogs(prev => prev.filter(l => !ids.has(l.id)));
+        writeQueue.log({ type: "hide", kind: "gps", batch, until });
+      },
+      () => {
+        setGpsLogs(prev => [...prev, ...cleared].slice(0, RECENT_LIMIT));
+        writeQueue.log({ type: "restore", kind: "gps", batch });
+      }
+    );
+  };
+
+  const saveScript = (name: string, steps: string[]) => {
+    const now = new Date().toISOString();
+    setScripts(prev => {
+      const existing = prev.find(s => s.name === name);
+      if (existing) return prev.map(s => s.id === existing.id ? { ...s, steps, updatedAt: now } : s);
+      return [...prev, { id: ulid(), name, steps, createdAt: now, updatedAt: now }];
+    });
+  };
+
+  const deleteScript = (name: string) => {
+    setScripts(prev => prev.filter(s => s.name !== name));
+  };
+
+  const saveProfile = (name: string) => {
+    const now = new Date().toISOString();
+    const features = captureProfile(featureStore.get());
+    const existing = profileStore.get().find(p => p.name === name);
+    const profile: FeatureProfile = existing
+      ? { ...existing, features, updatedAt: now }
+      : { id: ulid(), name, features, createdAt: now, updatedAt: now };
+    setProfiles(prev => (existing ? prev.map(p => p.id === profile.id ? profile : p) : [...prev, profile]));
+    setActiveProfile(profile.id);
+    return profile;
+  };
+
+  const applyProfile = (id: string): ProfilePlan => {
+    const profile = profileStore.get().find(p => p.id === id);
+    if (!profile) return { changes: [], blocked: `Profile not found: ${id}` };
+    const current = featureStore.get();
+    const changes = diffProfile(profile, current);
+    const problems = ruleViolations(applyEntries(profile.features, current));
+    if (problems.length) return { changes, blocked: problems.join(" ") };
+    const before = captureProfile(current);
+    const previousActive = activeProfileStore.get();
+    let done = false;
+    recordUndo(
+      `Applied profile ${profile.name}`,
+      () => {
+        changeFeatures(done ? "undo" : "profile", prev => applyEntries(profile.features, prev));
+        setActiveProfile(profile.id);
+        done = true;
+      },
+      () => {
+        changeFeatures("undo", prev => applyEntries(before, prev));
+        setActiveProfile(previousActive);
+      }
+    );
+    return { changes };
+  };
+
+  const deleteProfile = (id: string) => {
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    setActiveProfile(prev => (prev === id ? null : prev));
+  };
 
   const value = useMemo(() => ({
-    features, gpsLogs, photoLogs, commandLogs, emailQueue, emailAddress, isOnline,
-    setEmailAddress, toggleFeature, addFeature, removeFeature,
-    addGPSLog, addPhotoLog, addCommandLog, addEmailQueue,
-    clearCommandLogs, clearGPSLogs,
-  }), [features, gpsLogs, photoLogs, commandLogs, emailQueue, emailAddress, isOnline, loaded]);
+    scripts, schedules, aliases, variables, isOnline, networkEvents, recordConnectivity, featureAudit, quarantine, discardQuarantine,
+    savePending: saveStatus.pending, saveError: saveStatus.error, retrySave,
+    backUp, previewRestore, restoreBackup, vault, enableVault, disableVault, lock,
+    retention, setRetention, pruneLogs,
+    setEmailAddress, toggleFeature, setFeatureEnabled, setFeatureConfig, addFeature, removeFeature, importFeatures,
+    addGPSLog, addPhotoLog, addCommandLog, addEmailQueue, markEmailsSent,
+    clearCommandLogs, clearGPSLogs, saveScript, deleteScript,
+    profiles, activeProfile, saveProfile, applyProfile, deleteProfile,
+    addSchedule, removeSchedule, markScheduleRun,
+    setAlias, removeAlias, setVariable, removeVariable,
+    undoStack, redoStack, undo: undoLast, redo: redoLast,
+  }), [scripts, schedules, profiles, activeProfile, aliases, variables, isOnline, networkEvents, featureAudit, quarantine, saveStatus, vault, retention, undoStack, redoStack, loaded]);
 
+  if (vault === "locked") return <VaultLockScreen onUnlock={unlock} />;
   if (!loaded) return null;
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
 }
 
-export function useApp() {
+/** The provider's own state and actions, without subscribing to any domain store. */
+export function useAppCore(): AppCore {
   const ctx = useContext(AppContext);
   if (!ctx) throw new Error("useApp must be used within AppProvider");
   return ctx;
 }
+
+const selectQueue = (email: EmailState) => email.queue;
+const selectAddress = (email: EmailState) => email.address;
+
+/**
+ * Everything at once, for screens written before the stores were split. It
+ * re-renders on any change; prefer `useAppCore()` with the selector hooks
+ * from context/stores.
+ */
+export function useApp(): AppContextValue {
+  const core = useAppCore();
+  const features = useFeatures();
+  const gpsLogs = useGpsLogs();
+  const photoLogs = usePhotoLogs();
+  const commandLogs = useCommandLogs();
+  const emailQueue = useEmail(selectQueue);
+  const emailAddress = useEmail(selectAddress);
+  return useMemo(
+    () => ({ ...core, features, gpsLogs, photoLogs, commandLogs, emailQueue, emailAddress }),
+    [core, features, gpsLogs, photoLogs, commandLogs, emailQueue, emailAddress]
+  );
+}
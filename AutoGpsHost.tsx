@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import * as Location from "expo-location";
+import { useAppCore } from "@/context/AppContext";
+import { useFeature } from "@/hooks/useFeature";
+import { useFeatureConfig } from "@/hooks/useFeatureConfig";
+import { FEATURE } from "@/lib/features";
+
+/** Used when the feature has lost its interval setting. */
+const DEFAULT_INTERVAL = 30_000;
+
+/**
+ * Logs the position every Auto GPS Log interval while GPS Tracking and Auto
+ * GPS Log are both on and location access is granted. Renders nothing;
+ * mount it once below `AppProvider`.
+ */
+export function AutoGpsHost() {
+  const gpsEnabled = useFeature(FEATURE.gpsTracking);
+  const autoLog = useFeature(FEATURE.autoGpsLog);
+  const interval = Number(useFeatureConfig(FEATURE.autoGpsLog, "interval") ?? DEFAULT_INTERVAL);
+  const { addGPSLog } = useAppCore();
+  const latest = useRef(addGPSLog);
+  latest.current = addGPSLog;
+
+  useEffect(() => {
+    if (!gpsEnabled || !autoLog) return;
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const { granted } = await Location.getForegroundPermissionsAsync();
+        if (granted) {
+          const loc = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+          latest.current({ lat: loc.coords.latitude, lng: loc.coords.longitude, accuracy: Math.round(loc.coords.accuracy ?? 0) });
+        }
+      } catch (e) {
+        console.warn("Auto GPS log failed", e);
+      }
+      running = false;
+    };
+
+    tick();
+    const timer = setInterval(tick, interval);
+    return () => clearInterval(timer);
+  }, [gpsEnabled, autoLog, interval]);
+
+  return null;
+}
@@ -0,0 +1,65 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { usePowerState, BatteryState } from "expo-battery";
+import { Colors } from "@/constants/colors";
+
+const LOW_LEVEL = 0.2;
+
+const STATE_LABELS: Record<BatteryState, string> = {
+  [BatteryState.UNKNOWN]: "State unknown",
+  [BatteryState.UNPLUGGED]: "On battery",
+  [BatteryState.CHARGING]: "Charging",
+  [BatteryState.FULL]: "Full",
+};
+
+/**
+ * Battery level and charging state. It listens to battery events while it is
+ * mounted, so show it only while Battery Monitor is on.
+ */
+export function BatteryCard() {
+  const { batteryLevel, batteryState, lowPowerMode } = usePowerState();
+  // The level is -1 where the device does not report one, such as simulators.
+  const known = batteryLevel >= 0;
+  const color = !known ? Colors.textDim : batteryLevel <= LOW_LEVEL ? Colors.danger : Colors.success;
+  const icon = batteryState === BatteryState.CHARGING ? "battery-charging" : batteryLevel <= LOW_LEVEL ? "battery-dead" : "battery-full";
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.row}>
+        <Ionicons name={icon} size={18} color={color} />
+        <Text style={[styles.level, { color }]}>{known ? `${Math.round(batteryLevel * 100)}%` : "UNKNOWN"}</Text>
+      </View>
+      <Text style={styles.detail}>
+        {STATE_LABELS[batteryState]}
+        {lowPowerMode ? " · Low Power Mode" : ""}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.bgCard,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+    gap: 4,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  level: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 15,
+    letterSpacing: 1.5,
+  },
+  detail: {
+    fontFamily: "Rajdhani_400Regular",
+    fontSize: 12,
+    color: Colors.textDim,
+  },
+});
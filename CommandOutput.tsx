@@ -0,0 +1,226 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Colors } from "@/constants/colors";
+import type { Output, Column, Row, Value, ValueType } from "@/lib/commands";
+
+interface CommandOutputProps {
+  output: Output;
+  /** Called when a feature id in a table or key/value block is tapped. */
+  onFeaturePress?: (id: string) => void;
+}
+
+function formatValue(value: Value | undefined, type?: ValueType): string {
+  if (value === undefined || value === "") return "—";
+  if (type === "time") return new Date(String(value)).toLocaleString();
+  if (type === "boolean") return value ? "ON" : "OFF";
+  return String(value);
+}
+
+function Cell({ value, type, onFeaturePress }: { value: Value | undefined; type?: ValueType; onFeaturePress?: (id: string) => void }) {
+  const text = formatValue(value, type);
+  if (type === "feature" && onFeaturePress && value !== undefined && value !== "") {
+    return (
+      <Text style={[styles.cell, styles.link]} onPress={() => onFeaturePress(String(value))} suppressHighlighting>
+        {text}
+      </Text>
+    );
+  }
+  const color = type === "boolean" ? (value ? Colors.success : Colors.textDim) : undefined;
+  return <Text style={[styles.cell, color ? { color } : null]} numberOfLines={1}>{text}</Text>;
+}
+
+/**
+ * Lays cells out column by column so every column is as wide as its widest
+ * cell; rows line up because all cells share one line height.
+ */
+function Columns({ columns, rows, onFeaturePress }: { columns: Column[]; rows: Row[]; onFeaturePress?: (id: string) => void }) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.table}>
+      {columns.map(col => (
+        <View key={col.key} style={[styles.column, col.type === "number" && styles.numberColumn]}>
+          <Text style={styles.header} numberOfLines={1}>{(col.label ?? col.key).toUpperCase()}</Text>
+          {rows.map((row, i) => (
+            <Cell key={i} value={row[col.key]} type={col.type} onFeaturePress={onFeaturePress} />
+          ))}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+type KeyValueEntry = Extract<Output, { kind: "keyValue" }>["entries"][number];
+
+function KeyValueBlock({ entries, onFeaturePress }: { entries: KeyValueEntry[]; onFeaturePress?: (id: string) => void }) {
+  return (
+    <View style={styles.keyValue}>
+      <View style={styles.column}>
+        {entries.map(e => <Text key={e.key} style={styles.key} numberOfLines={1}>{e.key}</Text>)}
+      </View>
+      <View style={[styles.column, styles.values]}>
+        {entries.map(e => <Cell key={e.key} value={e.value} type={e.type} onFeaturePress={onFeaturePress} />)}
+      </View>
+    </View>
+  );
+}
+
+function CoordinateList({ rows }: { rows: Row[] }) {
+  return (
+    <View style={styles.block}>
+      {rows.map((row, i) => (
+        <View key={i} style={styles.point}>
+          <Ionicons name="location" size={12} color={Colors.accent} />
+          <Text style={styles.coords}>{Number(row.lat).toFixed(5)}, {Number(row.lng).toFixed(5)}</Text>
+          <Text style={styles.pointDetail} numberOfLines={1}>
+            {row.accuracy !== undefined ? `±${row.accuracy}m  ` : ""}{row.time ? new Date(String(row.time)).toLocaleString() : ""}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function JsonNode({ name, value, depth }: { name?: string; value: unknown; depth: number }) {
+  const [open, setOpen] = useState(depth < 1);
+  const label = name !== undefined ? <Text style={styles.jsonKey}>{name}: </Text> : null;
+  const indent = { paddingLeft: depth * 14 };
+
+  if (value === null || typeof value !== "object") {
+    const color = typeof value === "string" ? Colors.success : typeof value === "number" ? Colors.warning : Colors.accent;
+    return (
+      <Text style={[styles.jsonLine, indent]}>
+        {label}
+        <Text style={{ color }}>{JSON.stringify(value)}</Text>
+      </Text>
+    );
+  }
+
+  const entries: [string, unknown][] = Array.isArray(value) ? value.map((v, i) => [String(i), v]) : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+  return (
+    <View>
+      <Pressable onPress={() => setOpen(o => !o)} style={[styles.jsonToggle, indent]} hitSlop={4}>
+        <Ionicons name={open ? "chevron-down" : "chevron-forward"} size={12} color={Colors.textDim} />
+        <Text style={styles.jsonLine}>
+          {label}
+          <Text style={styles.jsonSummary}>{summary}</Text>
+        </Text>
+      </Pressable>
+      {open && entries.map(([k, v]) => <JsonNode key={k} name={k} value={v} depth={depth + 1} />)}
+    </View>
+  );
+}
+
+/** Renders a structured command result in the Command Center log. */
+export function CommandOutput({ output, onFeaturePress }: CommandOutputProps) {
+  switch (output.kind) {
+    case "table":
+      if (output.rows.length === 0) return <Text style={styles.empty}>(no rows)</Text>;
+      return <Columns columns={output.columns} rows={output.rows} onFeaturePress={onFeaturePress} />;
+    case "keyValue":
+      return <KeyValueBlock entries={output.entries} onFeaturePress={onFeaturePress} />;
+    case "coordinates":
+      if (output.rows.length === 0) return <Text style={styles.empty}>(no rows)</Text>;
+      return <CoordinateList rows={output.rows} />;
+    case "json":
+      return (
+        <View style={styles.block}>
+          <JsonNode value={output.value} depth={0} />
+        </View>
+      );
+  }
+}
+
+const styles = StyleSheet.create({
+  block: {
+    paddingLeft: 16,
+    gap: 2,
+  },
+  table: {
+    paddingLeft: 16,
+    gap: 16,
+  },
+  column: {
+    alignItems: "flex-start",
+  },
+  keyValue: {
+    flexDirection: "row",
+    paddingLeft: 16,
+    gap: 16,
+  },
+  values: {
+    flexShrink: 1,
+  },
+  key: {
+    fontFamily: "Rajdhani_600SemiBold",
+    fontSize: 13,
+    lineHeight: 18,
+    height: 18,
+    color: Colors.textPrimary,
+  },
+  numberColumn: {
+    alignItems: "flex-end",
+  },
+  header: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 11,
+    lineHeight: 18,
+    letterSpacing: 1,
+    color: Colors.textDim,
+  },
+  cell: {
+    fontFamily: "Rajdhani_400Regular",
+    fontSize: 13,
+    lineHeight: 18,
+    height: 18,
+    color: Colors.textSecondary,
+    maxWidth: 240,
+  },
+  link: {
+    fontFamily: "Rajdhani_600SemiBold",
+    color: Colors.accent,
+    textDecorationLine: "underline",
+  },
+  empty: {
+    fontFamily: "Rajdhani_400Regular",
+    fontSize: 13,
+    lineHeight: 18,
+    paddingLeft: 16,
+    color: Colors.textDim,
+  },
+  point: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  coords: {
+    fontFamily: "Rajdhani_600SemiBold",
+    fontSize: 13,
+    lineHeight: 18,
+    color: Colors.textPrimary,
+  },
+  pointDetail: {
+    flex: 1,
+    fontFamily: "Rajdhani_400Regular",
+    fontSize: 12,
+    color: Colors.textDim,
+  },
+  jsonToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  jsonLine: {
+    fontFamily: "Rajdhani_400Regular",
+    fontSize: 13,
+    lineHeight: 18,
+    color: Colors.textSecondary,
+  },
+  jsonKey: {
+    fontFamily: "Rajdhani_600SemiBold",
+    color: Colors.textPrimary,
+  },
+  jsonSummary: {
+    color: Colors.textDim,
+  },
+});
@@ -0,0 +1,83 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Colors } from "@/constants/colors";
+import { useAppCore } from "@/context/AppContext";
+import { describeConnectivity } from "@/lib/network";
+import { FEATURE } from "@/lib/features";
+import { useFeature } from "@/hooks/useFeature";
+
+const SHOWN_EVENTS = 5;
+
+/** Current connectivity and the latest changes recorded by Network Watch. */
+export function NetworkCard() {
+  const watching = useFeature(FEATURE.networkWatch);
+  const { isOnline, networkEvents } = useAppCore();
+  const color = !watching ? Colors.textDim : isOnline ? Colors.success : Colors.danger;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.row}>
+        <Ionicons name={isOnline ? "wifi" : "cloud-offline-outline"} size={18} color={color} />
+        <Text style={[styles.state, { color }]}>{!watching ? "UNKNOWN" : isOnline ? "ONLINE" : "OFFLINE"}</Text>
+      </View>
+      <Text style={styles.detail}>{describeConnectivity(watching, isOnline, networkEvents)}</Text>
+      {networkEvents.slice(0, SHOWN_EVENTS).map(e => (
+        <View key={e.id} style={styles.event}>
+          <View style={[styles.dot, { backgroundColor: e.online ? Colors.success : Colors.danger }]} />
+          <Text style={styles.eventText}>{e.online ? `Online · ${e.type}` : "Offline"}</Text>
+          <Text style={styles.eventTime}>{new Date(e.at).toLocaleString()}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.bgCard,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+    gap: 4,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  state: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 15,
+    letterSpacing: 1.5,
+  },
+  detail: {
+    fontFamily: "Rajdhani_400Regular",
+    fontSize: 12,
+    color: Colors.textDim,
+    marginBottom: 6,
+  },
+  event: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 4,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  eventText: {
+    flex: 1,
+    fontFamily: "Rajdhani_600SemiBold",
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  eventTime: {
+    fontFamily: "Rajdhani_500Medium",
+    fontSize: 12,
+    color: Colors.textDim,
+  },
+});
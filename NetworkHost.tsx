@@ -0,0 +1,55 @@
+import { useEffect, useRef } from "react";
+import { Alert, Linking } from "react-native";
+import NetInfo from "@react-native-community/netinfo";
+import { useAppCore } from "@/context/AppContext";
+import { emailStore } from "@/context/stores";
+import { isReachable } from "@/lib/network";
+import { FEATURE, isEnabled } from "@/lib/features";
+import { useFeature } from "@/hooks/useFeature";
+
+/**
+ * Follows connectivity while Network Watch is on and records every change.
+ * Coming back online offers to send the email queue. Renders nothing; mount
+ * it once below `AppProvider`.
+ */
+export function NetworkHost() {
+  const watching = useFeature(FEATURE.networkWatch);
+  const { networkEvents, recordConnectivity, markEmailsSent } = useAppCore();
+  const latest = useRef({ networkEvents, recordConnectivity, markEmailsSent });
+  latest.current = { networkEvents, recordConnectivity, markEmailsSent };
+
+  useEffect(() => {
+    if (!watching) return;
+    // NetInfo reports the current state right away; only changes from what was last recorded count.
+    let known = latest.current.networkEvents[0]?.online ?? true;
+
+    const sendQueue = () => {
+      const { queue, address } = emailStore.get();
+      const pending = queue.filter(e => !e.sent);
+      if (!isEnabled(FEATURE.emailSync) || !address || pending.length === 0) return;
+      Alert.alert("Back Online", `${pending.length} queued sync email${pending.length === 1 ? " is" : "s are"} waiting. Send now?`, [
+        { text: "Later", style: "cancel" },
+        {
+          text: "Send",
+          onPress: () => {
+            const subject = encodeURIComponent(pending.length === 1 ? pending[0].subject : `${pending.length} queued syncs`);
+            const body = encodeURIComponent(pending.map(e => `${e.subject}\n${e.body}`).join("\n\n"));
+            Linking.openURL(`mailto:${address}?subject=${subject}&body=${body}`)
+              .then(() => latest.current.markEmailsSent(pending.map(e => e.id)))
+              .catch(e => Alert.alert("Email", e instanceof Error ? e.message : String(e)));
+          },
+        },
+      ]);
+    };
+
+    return NetInfo.addEventListener(state => {
+      const online = isReachable(state);
+      if (online === known) return;
+      known = online;
+      latest.current.recordConnectivity(online, state.type);
+      if (online) sendQueue();
+    });
+  }, [watching]);
+
+  return null;
+}
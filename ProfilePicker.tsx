@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, ScrollView, StyleSheet, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Colors } from "@/constants/colors";
+import { useAppCore, FeatureProfile } from "@/context/AppContext";
+import { useFeatures } from "@/context/stores";
+import { diffProfile, describeChange, matchesProfile } from "@/lib/profiles";
+import { haptics } from "@/lib/haptics";
+
+/** Saved profiles as chips: tapping one shows what it changes and applies it, long-pressing deletes it. */
+export function ProfilePicker() {
+  const features = useFeatures();
+  const { profiles, activeProfile, saveProfile, applyProfile, deleteProfile } = useAppCore();
+  const [name, setName] = useState("");
+  const active = profiles.find(p => p.id === activeProfile);
+
+  const handleApply = (profile: FeatureProfile) => {
+    const changes = diffProfile(profile, features);
+    if (changes.length === 0) {
+      applyProfile(profile.id);
+      haptics.selection();
+      return;
+    }
+    Alert.alert(`Apply ${profile.name}?`, changes.map(describeChange).join("\n"), [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Apply",
+        onPress: () => {
+          const plan = applyProfile(profile.id);
+          if (plan.blocked) {
+            haptics.notify(Haptics.NotificationFeedbackType.Error);
+            Alert.alert(`Cannot Apply ${profile.name}`, plan.blocked);
+          } else {
+            haptics.notify(Haptics.NotificationFeedbackType.Success);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDelete = (profile: FeatureProfile) => {
+    haptics.impact(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert("Delete Profile", `Delete "${profile.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => deleteProfile(profile.id) },
+    ]);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = profiles.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+    const save = () => {
+      saveProfile(existing?.name ?? trimmed);
+      setName("");
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
+    };
+    if (!existing) return save();
+    Alert.alert("Replace Profile", `Save the current features over "${existing.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Replace", onPress: save },
+    ]);
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.status}>
+        {active ? `${active.name}${matchesProfile(active, features) ? "" : " (modified)"}` : "No profile active"}
+      </Text>
+      {profiles.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {profiles.map(p => {
+            const selected = p.id === activeProfile;
+            return (
+              <Pressable
+                key={p.id}
+                onPress={() => handleApply(p)}
+                onLongPress={() => handleDelete(p)}
+                style={[styles.chip, selected && styles.chipActive]}
+              >
+                <Text style={[styles.chipText, selected && { color: Colors.success }]}>{p.name}</Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      )}
+      <View style={styles.saveRow}>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          onSubmitEditing={handleSave}
+          placeholder="Save current as…"
+          placeholderTextColor={Colors.textDim}
+        />
+        <Pressable onPress={handleSave} style={styles.saveBtn}>
+          <Ionicons name="bookmark-outline" size={16} color={Colors.textPrimary} />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.bgCard,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+    gap: 10,
+  },
+  status: {
+    fontFamily: "Rajdhani_600SemiBold",
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.bgElevated,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+  },
+  chipActive: {
+    backgroundColor: Colors.success + "20",
+    borderColor: Colors.success + "60",
+  },
+  chipText: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 13,
+    letterSpacing: 1,
+    color: Colors.textDim,
+  },
+  saveRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: Colors.bgElevated,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontFamily: "Rajdhani_500Medium",
+    fontSize: 14,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+  },
+  saveBtn: {
+    width: 38,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 10,
+    backgroundColor: Colors.bgElevated,
+  },
+});
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from "react";
+import { AppState } from "react-native";
+import { useAppCore } from "@/context/AppContext";
+
+const PRUNE_INTERVAL = 15 * 60_000;
+
+/**
+ * Applies the retention policies while the app is open. Renders nothing;
+ * mount it once below `AppProvider`.
+ */
+export function PrunerHost() {
+  const { pruneLogs } = useAppCore();
+  const latest = useRef(pruneLogs);
+  latest.current = pruneLogs;
+
+  useEffect(() => {
+    let running = false;
+
+    const prune = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await latest.current();
+      } catch (e) {
+        console.warn("Failed to prune logs", e);
+      }
+      running = false;
+    };
+
+    prune();
+    const timer = setInterval(prune, PRUNE_INTERVAL);
+    const sub = AppState.addEventListener("change", state => {
+      if (state === "active") prune();
+    });
+    return () => {
+      clearInterval(timer);
+      sub.remove();
+    };
+  }, []);
+
+  return null;
+}
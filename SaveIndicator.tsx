@@ -0,0 +1,66 @@
+import React from "react";
+import { Text, StyleSheet, Pressable, Platform } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeOut } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+import { haptics } from "@/lib/haptics";
+import { Colors } from "@/constants/colors";
+import { useAppCore } from "@/context/AppContext";
+
+/** Shown while changes could not be written to storage; tapping it tries again. */
+export function SaveIndicator() {
+  const insets = useSafeAreaInsets();
+  const { saveError, retrySave } = useAppCore();
+
+  if (!saveError) return null;
+
+  const handleRetry = () => {
+    retrySave();
+    haptics.impact(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const top = (Platform.OS === "web" ? 67 : insets.top) + 8;
+
+  return (
+    <Animated.View entering={FadeIn.duration(180)} exiting={FadeOut.duration(180)} style={[styles.wrap, { top }]} pointerEvents="box-none">
+      <Pressable onPress={handleRetry} hitSlop={8} style={styles.pill} accessibilityLabel={`Unsaved changes: ${saveError}. Tap to retry.`}>
+        <Ionicons name="cloud-offline" size={14} color={Colors.warning} />
+        <Text style={styles.label}>UNSAVED CHANGES</Text>
+        <Text style={styles.retry}>RETRY</Text>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    alignItems: "center",
+  },
+  pill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.bgElevated,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: Colors.warning,
+  },
+  label: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 12,
+    letterSpacing: 1,
+    color: Colors.warning,
+  },
+  retry: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 12,
+    letterSpacing: 1.5,
+    color: Colors.accent,
+  },
+});
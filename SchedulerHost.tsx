@@ -0,0 +1,62 @@
+import { useEffect, useRef } from "react";
+import { AppState } from "react-native";
+import { useAppCore } from "@/context/AppContext";
+import { registry } from "@/lib/commands";
+import { parseSchedule, nextRun } from "@/lib/scheduler";
+import { useCommandContext } from "@/hooks/useCommandContext";
+
+const TICK_INTERVAL = 30_000;
+
+/**
+ * Runs due scheduled commands while the app is open. Renders nothing; mount
+ * it once below `AppProvider`.
+ */
+export function SchedulerHost() {
+  const { addCommandLog, markScheduleRun } = useAppCore();
+  const ctx = useCommandContext("schedule");
+  const latest = useRef({ ctx, addCommandLog, markScheduleRun });
+  latest.current = { ctx, addCommandLog, markScheduleRun };
+
+  useEffect(() => {
+    // Schedules already run this session, until their new nextRunAt lands in state.
+    const running = new Set<string>();
+
+    const tick = () => {
+      const { ctx, addCommandLog, markScheduleRun } = latest.current;
+      const now = new Date();
+      for (const s of ctx.schedules) {
+        if (new Date(s.nextRunAt) > now || running.has(`${s.id}@${s.nextRunAt}`)) continue;
+        running.add(`${s.id}@${s.nextRunAt}`);
+
+        let next: Date;
+        try {
+          next = nextRun(parseSchedule(s.spec), now);
+        } catch (e) {
+          addCommandLog(`[schedule] ${s.command}`, `Schedule ${s.id} is invalid: ${(e as Error).message}`, "error", { source: "schedule" });
+          continue;
+        }
+        try {
+          const result = registry.execute(s.command, ctx);
+          addCommandLog(`[schedule] ${s.command}`, result.success ? result.message : `Failed: ${result.message}`, "info", { source: "schedule", output: result.output });
+        } catch (e) {
+          // A command that throws still counts as run, and the schedules after it still get their turn.
+          console.warn(`Scheduled command failed: ${s.command}`, e);
+          addCommandLog(`[schedule] ${s.command}`, `Failed: ${(e as Error).message}`, "error", { source: "schedule" });
+        }
+        markScheduleRun(s.id, now.toISOString(), next.toISOString());
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, TICK_INTERVAL);
+    const sub = AppState.addEventListener("change", state => {
+      if (state === "active") tick();
+    });
+    return () => {
+      clearInterval(timer);
+      sub.remove();
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,21 @@
+import { useEffect } from "react";
+import { Appearance } from "react-native";
+import { StatusBar } from "expo-status-bar";
+import { FEATURE } from "@/lib/features";
+import { useFeature } from "@/hooks/useFeature";
+
+/**
+ * Keeps the status bar and native controls such as alerts, pickers and the
+ * keyboard dark while Dark Mode is on; with it off they follow the device.
+ * The app's own screens use the dark palette either way. Mount it once
+ * below `AppProvider`.
+ */
+export function ThemeHost() {
+  const dark = useFeature(FEATURE.darkMode);
+
+  useEffect(() => {
+    Appearance.setColorScheme(dark ? "dark" : null);
+  }, [dark]);
+
+  return <StatusBar style={dark ? "light" : "auto"} />;
+}
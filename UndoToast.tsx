@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, StyleSheet, Pressable, Platform } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import Animated, { FadeInDown, FadeOutDown } from "react-native-reanimated";
+import * as Haptics from "expo-haptics";
+import { haptics } from "@/lib/haptics";
+import { Colors } from "@/constants/colors";
+import { useAppCore, UndoEntry } from "@/context/AppContext";
+
+const TOAST_DURATION = 4000;
+
+/** Offers to undo the most recent recorded change for a few seconds after it happens. */
+export function UndoToast() {
+  const insets = useSafeAreaInsets();
+  const { undoStack, undo } = useAppCore();
+  const [visible, setVisible] = useState<UndoEntry | null>(null);
+  const seen = useRef(new Set<string>());
+  const latest = undoStack[undoStack.length - 1];
+
+  useEffect(() => {
+    // Only announce new changes, not entries resurfacing after an undo or redo.
+    if (!latest || seen.current.has(latest.id)) {
+      setVisible(null);
+      return;
+    }
+    seen.current.add(latest.id);
+    setVisible(latest);
+    const timer = setTimeout(() => setVisible(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [latest?.id]);
+
+  if (!visible || visible.id !== latest?.id) return null;
+
+  const handleUndo = () => {
+    undo();
+    setVisible(null);
+    haptics.impact(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const bottom = (Platform.OS === "web" ? 84 : insets.bottom + 56) + 12;
+
+  return (
+    <Animated.View
+      entering={FadeInDown.duration(180)}
+      exiting={FadeOutDown.duration(180)}
+      style={[styles.toast, { bottom }]}
+      pointerEvents="box-none"
+    >
+      <View style={styles.inner}>
+        <Ionicons name="checkmark-circle" size={16} color={Colors.success} />
+        <Text style={styles.label} numberOfLines={1}>{visible.label}</Text>
+        <Pressable onPress={handleUndo} hitSlop={8} style={styles.undoBtn}>
+          <Ionicons name="arrow-undo" size={14} color={Colors.accent} />
+          <Text style={styles.undoText}>UNDO</Text>
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+  },
+  inner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.bgElevated,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+  },
+  label: {
+    flex: 1,
+    fontFamily: "Rajdhani_600SemiBold",
+    fontSize: 14,
+    color: Colors.textPrimary,
+    letterSpacing: 0.3,
+  },
+  undoBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  undoText: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 12,
+    letterSpacing: 1.5,
+    color: Colors.accent,
+  },
+});
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TextInput, Pressable, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { haptics } from "@/lib/haptics";
+import { Colors } from "@/constants/colors";
+
+interface VaultLockScreenProps {
+  /** Resolves false for a wrong passphrase. */
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+/** Shown by AppProvider instead of the app while the vault is locked. */
+export function VaultLockScreen({ onUnlock }: VaultLockScreenProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async () => {
+    if (!passphrase || busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (await onUnlock(passphrase)) return;
+      setError("Wrong passphrase");
+      haptics.notify(Haptics.NotificationFeedbackType.Error);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    setBusy(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed" size={40} color={Colors.accent} />
+      <Text style={styles.title}>VAULT LOCKED</Text>
+      <Text style={styles.subtitle}>Enter your passphrase to decrypt your data.</Text>
+      <TextInput
+        style={styles.input}
+        value={passphrase}
+        onChangeText={setPassphrase}
+        onSubmitEditing={handleUnlock}
+        placeholder="Passphrase"
+        placeholderTextColor={Colors.textDim}
+        secureTextEntry
+        autoFocus
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!busy}
+      />
+      {error && <Text style={styles.error}>{error}</Text>}
+      <Pressable onPress={handleUnlock} disabled={!passphrase || busy} style={[styles.button, (!passphrase || busy) && { opacity: 0.5 }]}>
+        {busy ? <ActivityIndicator size="small" color={Colors.bgDeep} /> : <Text style={styles.buttonText}>UNLOCK</Text>}
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+    gap: 12,
+    backgroundColor: Colors.bgDeep,
+  },
+  title: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 22,
+    letterSpacing: 3,
+    color: Colors.textPrimary,
+  },
+  subtitle: {
+    fontFamily: "Rajdhani_500Medium",
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: "center",
+  },
+  input: {
+    alignSelf: "stretch",
+    backgroundColor: Colors.bgElevated,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontFamily: "Rajdhani_500Medium",
+    fontSize: 15,
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+  },
+  error: {
+    fontFamily: "Rajdhani_600SemiBold",
+    fontSize: 13,
+    color: Colors.danger,
+  },
+  button: {
+    alignSelf: "stretch",
+    alignItems: "center",
+    borderRadius: 10,
+    paddingVertical: 12,
+    backgroundColor: Colors.accent,
+  },
+  buttonText: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 14,
+    letterSpacing: 1.5,
+    color: Colors.bgDeep,
+  },
+});
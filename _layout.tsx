@@ -6,6 +6,13 @@ import { Platform, StyleSheet, View } from "react-native";
 import React from "react";
 import { Ionicons } from "@expo/vector-icons";
 import { Colors } from "@/constants/colors";
+import { UndoToast } from "@/components/UndoToast";
+import { SchedulerHost } from "@/components/SchedulerHost";
+import { PrunerHost } from "@/components/PrunerHost";
+import { NetworkHost } from "@/components/NetworkHost";
+import { AutoGpsHost } from "@/components/AutoGpsHost";
+import { ThemeHost } from "@/components/ThemeHost";
+import { SaveIndicator } from "@/components/SaveIndicator";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 function NativeTabLayout() {
@@ -104,8 +111,16 @@ function ClassicTabLayout() {
 }
 
 export default function TabLayout() {
-  if (isLiquidGlassAvailable()) {
-    return <NativeTabLayout />;
-  }
-  return <ClassicTabLayout />;
+  return (
+    <>
+      {isLiquidGlassAvailable() ? <NativeTabLayout /> : <ClassicTabLayout />}
+      <UndoToast />
+      <SaveIndicator />
+      <SchedulerHost />
+      <PrunerHost />
+      <NetworkHost />
+      <AutoGpsHost />
+      <ThemeHost />
+    </>
+  );
 }
@@ -0,0 +1,96 @@
+import { registry, CommandResult, Row } from "@/lib/commands";
+import { tokenize } from "@/lib/command-parser";
+import { ALIAS_NAME, VARIABLE_NAME } from "@/lib/expansion";
+
+const formatAssignment = (r: Row) => `  ${r.name} = ${r.value}`;
+
+/**
+ * Splits `name = value`, `name=value` or `name value`. A value given as a
+ * single quoted word is unquoted; anything else is kept as typed.
+ */
+function parseAssignment(text: string): { name: string; value?: string } {
+  const m = /^([^\s=]+)\s*(?:=\s*|\s+|$)([\s\S]*)$/.exec(text.trim());
+  if (!m) return { name: text.trim() };
+  const [, name, raw] = m;
+  if (!raw && !/=/.test(text)) return { name };
+  const tokens = tokenize(raw);
+  const value = tokens.length === 1 && tokens[0].quoted && tokens[0].start === 0 && tokens[0].end === raw.length
+    ? tokens[0].value
+    : raw;
+  return { name, value };
+}
+
+function listAssignments(entries: Record<string, string>, title: string, empty: string): CommandResult {
+  const data: Row[] = Object.keys(entries).sort().map(name => ({ name, value: entries[name] }));
+  if (data.length === 0) return { success: true, message: empty, data, format: formatAssignment };
+  return {
+    success: true,
+    message: `${title} (${data.length}):\n${data.map(formatAssignment).join("\n")}`,
+    data,
+    format: formatAssignment,
+    output: { kind: "table", columns: [{ key: "name" }, { key: "value" }], rows: data },
+  };
+}
+
+registry.register({
+  name: "alias",
+  args: [{ name: "definition", optional: true, rest: true, raw: true }],
+  summary: "list aliases, or define one: alias gs = status",
+  description: "Aliases replace the first word of a command. Quote definitions that contain '|': alias recent = \"gps | last 5\"",
+  handler: ({ definition }, { aliases, actions }) => {
+    if (definition === undefined) return listAssignments(aliases, "Aliases", "No aliases defined.");
+    const { name, value } = parseAssignment(definition as string);
+    if (value === undefined) {
+      if (aliases[name] === undefined) return { success: false, message: `Alias not found: ${name}` };
+      return { success: true, message: `${name} = ${aliases[name]}`, data: [{ name, value: aliases[name] }], format: formatAssignment };
+    }
+    if (!ALIAS_NAME.test(name)) return { success: false, message: `Invalid alias name '${name}'. Use letters, digits, '-' and '_'.` };
+    if (registry.lookup([name]) || registry.getFilter(name)) return { success: false, message: `'${name}' is a built-in command and cannot be aliased.` };
+    if (!value.trim()) return { success: false, message: `Alias ${name} needs a definition.` };
+    const verb = aliases[name] === undefined ? "defined" : "updated";
+    actions.setAlias(name, value.trim());
+    return { success: true, message: `Alias ${verb}: ${name} = ${value.trim()}` };
+  },
+});
+
+registry.register({
+  name: "unalias",
+  args: [{ name: "name" }],
+  summary: "remove an alias",
+  handler: (args, { aliases, actions }) => {
+    const name = args.name as string;
+    if (aliases[name] === undefined) return { success: false, message: `Alias not found: ${name}` };
+    actions.removeAlias(name);
+    return { success: true, message: `Alias removed: ${name}` };
+  },
+});
+
+registry.register({
+  name: "set",
+  args: [{ name: "assignment", optional: true, rest: true, raw: true }],
+  summary: "list variables, or set one: set home=f001",
+  description: "Variables are substituted for $name or ${name} in later commands, except inside single quotes.",
+  handler: ({ assignment }, { variables, actions }) => {
+    if (assignment === undefined) return listAssignments(variables, "Variables", "No variables set.");
+    const { name, value } = parseAssignment(assignment as string);
+    if (value === undefined) {
+      if (variables[name] === undefined) return { success: false, message: `Variable not set: ${name}` };
+      return { success: true, message: `${name} = ${variables[name]}`, data: [{ name, value: variables[name] }], format: formatAssignment };
+    }
+    if (!VARIABLE_NAME.test(name)) return { success: false, message: `Invalid variable name '${name}'. Use letters, digits and '_'.` };
+    actions.setVariable(name, value);
+    return { success: true, message: `${name} = ${value}` };
+  },
+});
+
+registry.register({
+  name: "unset",
+  args: [{ name: "name" }],
+  summary: "remove a variable",
+  handler: (args, { variables, actions }) => {
+    const name = args.name as string;
+    if (variables[name] === undefined) return { success: false, message: `Variable not set: ${name}` };
+    actions.removeVariable(name);
+    return { success: true, message: `Variable removed: ${name}` };
+  },
+});
@@ -0,0 +1,68 @@
+import type { Feature, AuditEntry, AuditSource } from "@/context/AppContext";
+import { configValue, formatConfigValue } from "@/lib/features";
+import { ulid } from "@/lib/ids";
+
+export const AUDIT_SOURCES: AuditSource[] = ["command", "schedule", "admin", "sensors", "profile", "import", "undo", "restore"];
+export const AUDIT_ACTIONS: AuditEntry["action"][] = ["add", "remove", "enable", "disable", "config"];
+
+/** One audit entry per feature added, removed, switched or reconfigured between `before` and `after`. */
+export function auditChanges(before: Feature[], after: Feature[], source: AuditSource, at = new Date().toISOString()): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  const entry = (feature: Feature, action: AuditEntry["action"], extra: Partial<AuditEntry> = {}) =>
+    entries.push({ id: ulid(), at, featureId: feature.id, featureName: feature.name, action, source, ...extra });
+  const old = new Map(before.map(f => [f.id, f]));
+  const current = new Set(after.map(f => f.id));
+
+  for (const feature of after) {
+    const previous = old.get(feature.id);
+    if (!previous) {
+      entry(feature, "add");
+      continue;
+    }
+    if (previous.enabled !== feature.enabled) {
+      entry(feature, feature.enabled ? "enable" : "disable", { from: previous.enabled ? "on" : "off", to: feature.enabled ? "on" : "off" });
+    }
+    for (const param of feature.params ?? []) {
+      const from = configValue(previous, param.key) ?? param.default;
+      const to = configValue(feature, param.key)!;
+      if (from !== to) entry(feature, "config", { key: param.key, from: formatConfigValue(param, from), to: formatConfigValue(param, to) });
+    }
+  }
+  for (const feature of before) {
+    if (!current.has(feature.id)) entry(feature, "remove");
+  }
+  return entries;
+}
+
+/** What changed, e.g. "enabled", "interval 30s → 1m" or "removed". */
+export function describeAuditChange(entry: AuditEntry): string {
+  switch (entry.action) {
+    case "add":
+      return "added";
+    case "remove":
+      return "removed";
+    case "enable":
+      return "enabled";
+    case "disable":
+      return "disabled";
+    case "config":
+      return `${entry.key} ${entry.from} → ${entry.to}`;
+  }
+}
+
+export interface AuditFilter {
+  featureId?: string;
+  source?: AuditSource;
+  action?: AuditEntry["action"];
+  /** Only entries at or after this time, in milliseconds since the epoch. */
+  since?: number;
+}
+
+export function filterAudit(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  return entries.filter(e =>
+    (filter.featureId === undefined || e.featureId === filter.featureId) &&
+    (filter.source === undefined || e.source === filter.source) &&
+    (filter.action === undefined || e.action === filter.action) &&
+    (filter.since === undefined || Date.parse(e.at) >= filter.since)
+  );
+}
@@ -0,0 +1,78 @@
+import { registry, logWhenDone, Row, Column } from "@/lib/commands";
+import { formatBytes } from "@/lib/command-parser";
+import { listBackups, findBackup, describeSummary, CONFLICT_POLICIES, ConflictPolicy, RestorePlan } from "@/lib/backup";
+
+const SUMMARY_COLUMNS: Column[] = [
+  { key: "data" },
+  { key: "new", type: "number" },
+  { key: "unchanged", type: "number" },
+  { key: "conflicts", type: "number" },
+  { key: "removed", type: "number" },
+];
+
+function summaryRows(plan: RestorePlan): Row[] {
+  return plan.summary.map(s => ({ data: s.key, new: s.added, unchanged: s.unchanged, conflicts: s.conflicts, removed: s.removed }));
+}
+
+registry.register({
+  name: "backup",
+  summary: "back up all data, logs and photos to a file",
+  description: "Backups are saved in the app's backups folder; share them from Settings > Data Management to move them to another device.",
+  handler: (_args, { actions }) => {
+    logWhenDone(actions, "backup", actions.backUp().then(file => ({
+      success: true,
+      message: `Backup saved: ${file.name} (${formatBytes(file.size)})`,
+    })));
+    return { success: true, message: "Writing backup…" };
+  },
+  subcommands: [
+    {
+      name: "list",
+      aliases: ["ls"],
+      summary: "list saved backups",
+      handler: (_args, { actions }) => {
+        logWhenDone(actions, "backup list", listBackups().then(backups => {
+          const data: Row[] = backups.map(b => ({ name: b.name.replace(/\.json$/, ""), size: formatBytes(b.size), saved: b.modifiedAt ?? "" }));
+          const format = (r: Row) => `  ${r.name}  ${r.size}`;
+          if (data.length === 0) return { success: true, message: "No backups saved. Run 'backup' to create one." };
+          const columns: Column[] = [{ key: "name" }, { key: "size" }, { key: "saved", type: "time" }];
+          return { success: true, message: `Backups (${data.length}):\n${data.map(format).join("\n")}`, output: { kind: "table", columns, rows: data } };
+        }));
+        return { success: true, message: "Reading the backups folder…" };
+      },
+    },
+  ],
+});
+
+registry.register({
+  name: "restore",
+  args: [{ name: "backup" }],
+  options: [
+    { name: "replace", type: "boolean", summary: "replace all data instead of merging" },
+    { name: "conflicts", summary: "when an id is taken: keep (default), overwrite or duplicate" },
+    { name: "apply", type: "boolean", summary: "restore; without it only the preview is shown" },
+  ],
+  summary: "preview or restore a saved backup",
+  description: "Shows what restoring a backup from 'backup list' would change. Add --apply to restore it; this cannot be undone.",
+  handler: ({ backup, replace, conflicts = "keep", apply }, { actions }) => {
+    if (!CONFLICT_POLICIES.includes(conflicts as ConflictPolicy)) {
+      return { success: false, message: `Invalid --conflicts '${conflicts}'. Use ${CONFLICT_POLICIES.join(", ")}.` };
+    }
+    const options = { mode: replace ? "replace" : "merge", conflicts: conflicts as ConflictPolicy } as const;
+    const command = `restore ${backup}`;
+
+    logWhenDone(actions, command, findBackup(backup as string).then(async file => {
+      if (!file) return { success: false, message: `Backup not found: ${backup}. See 'backup list'.` };
+      const plan = await actions.previewRestore(file.uri, options);
+      const rows = summaryRows(plan);
+      const output = { kind: "table", columns: SUMMARY_COLUMNS, rows } as const;
+      const from = `backup from ${new Date(plan.createdAt).toLocaleString()}`;
+      if (!apply) {
+        return { success: true, message: `Restoring the ${from} (${options.mode}) would change:\n${describeSummary(plan.summary)}\nAdd --apply to restore it.`, output };
+      }
+      await actions.restoreBackup(plan);
+      return { success: true, message: `Restored the ${from} (${options.mode}):\n${describeSummary(plan.summary)}`, output };
+    }));
+    return { success: true, message: apply ? `Restoring ${backup}…` : `Reading ${backup}…` };
+  },
+});
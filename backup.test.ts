@@ -0,0 +1,97 @@
+import type { AuditEntry, FeatureProfile, NetworkEvent } from "@/context/AppContext";
+import { planRestore, AppData, Backup, RestoreOptions } from "@/lib/backup";
+
+jest.mock("@/lib/log-store", () => ({ queryLogs: jest.fn(async () => []), applyLogOps: jest.fn() }));
+jest.mock("@/lib/persistence", () => ({ writeQueue: { flush: jest.fn() } }));
+
+const MERGE: RestoreOptions = { mode: "merge", conflicts: "keep" };
+const REPLACE: RestoreOptions = { mode: "replace", conflicts: "keep" };
+
+function appData(overrides: Partial<AppData> = {}): AppData {
+  return {
+    features: [], emailQueue: [], scripts: [], schedules: [], profiles: [], activeProfile: null,
+    aliases: {}, variables: {}, emailAddress: "", retention: {}, networkEvents: [], featureAudit: [],
+    ...overrides,
+  };
+}
+
+function backup(data: Backup["data"]): Backup {
+  return { format: "rubel-engine-backup", version: 1, createdAt: "2026-03-01T00:00:00.000Z", data, photos: {} };
+}
+
+function profile(id: string, name: string): FeatureProfile {
+  return { id, name, features: [], createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-01T00:00:00.000Z" };
+}
+
+function audit(id: string, at: string): AuditEntry {
+  return { id, at, featureId: "f001", featureName: "GPS Tracking", action: "enable", source: "command" };
+}
+
+function event(id: string, at: string): NetworkEvent {
+  return { id, at, online: true, type: "wifi" };
+}
+
+describe("planRestore", () => {
+  it("merges the audit trail and network events, newest first", async () => {
+    const current = appData({
+      featureAudit: [audit("A3", "2026-01-03T00:00:00.000Z"), audit("A1", "2026-01-01T00:00:00.000Z")],
+      networkEvents: [event("N1", "2026-01-01T00:00:00.000Z")],
+    });
+    const plan = await planRestore(
+      backup({ featureAudit: [audit("A4", "2026-01-04T00:00:00.000Z"), audit("A2", "2026-01-02T00:00:00.000Z"), audit("A1", "2026-01-01T00:00:00.000Z")], networkEvents: [event("N2", "2026-01-02T00:00:00.000Z")] }),
+      current,
+      MERGE
+    );
+    expect(plan.values.featureAudit?.map(e => e.id)).toEqual(["A4", "A3", "A2", "A1"]);
+    expect(plan.values.networkEvents?.map(e => e.id)).toEqual(["N2", "N1"]);
+    expect(plan.summary.find(s => s.key === "featureAudit")).toMatchObject({ incoming: 3, added: 2, unchanged: 1 });
+  });
+
+  it("replaces the audit trail", async () => {
+    const plan = await planRestore(backup({ featureAudit: [audit("A2", "2026-01-02T00:00:00.000Z")] }), appData({ featureAudit: [audit("A1", "2026-01-01T00:00:00.000Z")] }), REPLACE);
+    expect(plan.values.featureAudit?.map(e => e.id)).toEqual(["A2"]);
+    expect(plan.summary.find(s => s.key === "featureAudit")).toMatchObject({ added: 1, removed: 1 });
+  });
+
+  it("takes the backup's active profile when none is active here", async () => {
+    const plan = await planRestore(backup({ profiles: [profile("P1", "Field")], activeProfile: "P1" }), appData(), MERGE);
+    expect(plan.values.activeProfile).toBe("P1");
+  });
+
+  it("points the active profile at the profile here with the same name", async () => {
+    const plan = await planRestore(
+      backup({ profiles: [profile("P9", "Field")], activeProfile: "P9" }),
+      appData({ profiles: [profile("P1", "Field")] }),
+      { mode: "merge", conflicts: "overwrite" }
+    );
+    expect(plan.values.profiles?.map(p => p.id)).toEqual(["P9"]);
+    expect(plan.values.activeProfile).toBe("P9");
+
+    const kept = await planRestore(backup({ profiles: [profile("P9", "Field")], activeProfile: "P9" }), appData({ profiles: [profile("P1", "Field")] }), MERGE);
+    expect(kept.values.activeProfile).toBe("P1");
+  });
+
+  it("keeps our active profile on a merge unless told to overwrite", async () => {
+    const current = appData({ profiles: [profile("P1", "Indoor")], activeProfile: "P1" });
+    const data = { profiles: [profile("P2", "Field")], activeProfile: "P2" };
+    expect((await planRestore(backup(data), current, MERGE)).values.activeProfile).toBeUndefined();
+    expect((await planRestore(backup(data), current, { mode: "merge", conflicts: "overwrite" })).values.activeProfile).toBe("P2");
+  });
+
+  it("clears an active profile the restore removes", async () => {
+    const current = appData({ profiles: [profile("P1", "Indoor")], activeProfile: "P1" });
+    const plan = await planRestore(backup({ profiles: [profile("P2", "Field")] }), current, REPLACE);
+    expect(plan.values.activeProfile).toBeNull();
+  });
+
+  it("clears a backed-up active profile that the backup does not contain", async () => {
+    const plan = await planRestore(backup({ activeProfile: "P7" }), appData(), REPLACE);
+    expect(plan.values.activeProfile).toBeNull();
+  });
+
+  it("leaves keys the backup does not carry alone", async () => {
+    const current = appData({ featureAudit: [audit("A1", "2026-01-01T00:00:00.000Z")], profiles: [profile("P1", "Indoor")], activeProfile: "P1" });
+    const plan = await planRestore(backup({ aliases: { ll: "list" } }), current, REPLACE);
+    expect(plan.values).toEqual({ aliases: { ll: "list" } });
+  });
+});
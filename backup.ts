@@ -0,0 +1,378 @@
+import * as FileSystem from "expo-file-system";
+import { z } from "zod";
+import { bytesToUtf8, utf8ToBytes } from "@noble/ciphers/utils";
+import type { FeatureProfile } from "@/context/AppContext";
+import { storedStateSchema, upgradeRecordIds, StoredState } from "@/lib/local-store";
+import { queryLogs, applyLogOps, LogKind, LogOp, LogRecords } from "@/lib/log-store";
+import { writeQueue } from "@/lib/persistence";
+import { readFileBytes, writeFileBytes, resealFile, toBase64, fromBase64, VaultLockedError } from "@/lib/vault";
+import { ulid } from "@/lib/ids";
+import { documentFolder, describeFile, fileName, listJsonFiles, StoredFile } from "@/lib/files";
+
+const BACKUP_FORMAT = "rubel-engine-backup";
+const BACKUP_VERSION = 1;
+
+const LOG_KEYS = { gpsLogs: "gps", photoLogs: "photo", commandLogs: "command" } as const;
+
+type LogKey = keyof typeof LOG_KEYS;
+
+/** Everything AppContext keeps in AsyncStorage; logs and photos are read from their own stores. */
+export type AppData = Omit<StoredState, LogKey>;
+
+/**
+ * A backup archive: every stored key, every log and the photo files as
+ * base64. With the vault on, the file is sealed with the vault key like the
+ * photos, so it only restores while this vault is set up.
+ */
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  data: Partial<StoredState>;
+  /** Photo files by photo log id. */
+  photos: Record<string, { name: string; data: string }>;
+}
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().max(BACKUP_VERSION, "Backup was made by a newer version of the app"),
+  createdAt: z.string(),
+  data: storedStateSchema,
+  photos: z.record(z.object({ name: z.string(), data: z.string() })),
+});
+
+export type BackupFile = StoredFile;
+
+export type RestoreMode = "merge" | "replace";
+
+/**
+ * What a merge does with a record whose id is already taken by a different
+ * record: keep ours, overwrite it with the backup's, or keep both by giving
+ * the backup's a new id. Aliases and variables are keyed by name and cannot
+ * be duplicated, so `duplicate` keeps ours for them.
+ */
+export type ConflictPolicy = "keep" | "overwrite" | "duplicate";
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ["keep", "overwrite", "duplicate"];
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  conflicts: ConflictPolicy;
+}
+
+/** What a restore does to one stored key. */
+export interface RestoreSummary {
+  key: keyof StoredState;
+  incoming: number;
+  added: number;
+  unchanged: number;
+  conflicts: number;
+  /** Records dropped by a replace. */
+  removed: number;
+}
+
+export interface RestorePlan {
+  options: RestoreOptions;
+  createdAt: string;
+  /** New values for the keys the restore changes. */
+  values: Partial<AppData>;
+  logOps: LogOp[];
+  photos: { uri: string; data: string }[];
+  summary: RestoreSummary[];
+}
+
+/** Backups saved on this device, newest first. */
+export async function listBackups(): Promise<BackupFile[]> {
+  return listJsonFiles(await documentFolder("backups"));
+}
+
+/** Finds a saved backup by file name, with or without `.json`. */
+export async function findBackup(name: string): Promise<BackupFile | undefined> {
+  const file = name.endsWith(".json") ? name : `${name}.json`;
+  return (await listBackups()).find(b => b.name === file);
+}
+
+async function allLogs<K extends LogKind>(kind: K): Promise<LogRecords[K][]> {
+  return queryLogs(kind, { limit: -1 });
+}
+
+/** Writes every stored key, log and photo file into a new archive in the backups folder. */
+export async function createBackup(data: AppData): Promise<BackupFile> {
+  // Logs still waiting in the write queue belong in the backup too.
+  await writeQueue.flush();
+  const [gpsLogs, photoLogs, commandLogs] = await Promise.all([allLogs("gps"), allLogs("photo"), allLogs("command")]);
+
+  const photos: Backup["photos"] = {};
+  for (const log of photoLogs) {
+    if ((await FileSystem.getInfoAsync(log.uri)).exists) photos[log.id] = { name: fileName(log.uri), data: toBase64(await readFileBytes(log.uri)) };
+  }
+
+  const createdAt = new Date().toISOString();
+  const backup: Backup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt,
+    data: { ...data, gpsLogs, photoLogs, commandLogs },
+    photos,
+  };
+  const uri = `${await documentFolder("backups")}rubel-backup-${createdAt.slice(0, 19).replace(/:/g, "-")}.json`;
+  await writeFileBytes(uri, utf8ToBytes(JSON.stringify(backup)));
+  return describeFile(uri);
+}
+
+/** Rewrites the saved backups sealed with `withKey`, or in plain text for null, when the vault is turned on or off. */
+export async function resealBackups(withKey: Uint8Array | null): Promise<void> {
+  for (const backup of await listBackups()) await resealFile(backup.uri, withKey);
+}
+
+/** Reads and validates an archive; throws with a readable message when it is not a usable backup. */
+export async function readBackup(uri: string): Promise<Backup> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFileBytes(uri);
+  } catch (e) {
+    if (e instanceof VaultLockedError) throw e;
+    throw new Error("Cannot read this backup: it is encrypted with the key of another vault.");
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(bytesToUtf8(bytes));
+  } catch (_) {
+    throw new Error("Not a backup file: it does not contain JSON.");
+  }
+  const result = backupSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid backup: ${issue.path.length ? `${issue.path.join(".")}: ` : ""}${issue.message}`);
+  }
+  return upgradeIds(result.data as Backup);
+}
+
+/** Backups from older builds carry random ids; give them the ULIDs the storage migration gave the same records. */
+function upgradeIds(backup: Backup): Backup {
+  const data = { ...backup.data };
+  for (const key of ["features", "emailQueue", "scripts", "schedules", "gpsLogs", "commandLogs"] as const) {
+    const records = data[key] as { id: string }[] | undefined;
+    if (records) (data as Record<string, unknown>)[key] = upgradeRecordIds(key, records);
+  }
+  const photos: Backup["photos"] = {};
+  if (data.photoLogs) {
+    data.photoLogs = data.photoLogs.map(log => {
+      const [upgraded] = upgradeRecordIds("photoLogs", [log]);
+      if (backup.photos[log.id]) photos[upgraded.id] = backup.photos[log.id];
+      return upgraded;
+    });
+  }
+  return { ...backup, data, photos };
+}
+
+/** Photo logs point at files on the device that took them, so only their id and time are compared. */
+function comparable(key: keyof StoredState, record: unknown): string {
+  if (key === "photoLogs") {
+    const { uri: _, ...rest } = record as LogRecords["photo"];
+    return JSON.stringify(rest);
+  }
+  return JSON.stringify(record);
+}
+
+/** Scripts and profiles are addressed by name in commands, so that is what identifies them. */
+function identity(key: keyof StoredState, record: { id: string; name?: string }): string {
+  return key === "scripts" || key === "profiles" ? record.name! : record.id;
+}
+
+function mergeRecords<T extends { id: string }>(
+  key: keyof StoredState,
+  current: T[],
+  incoming: T[],
+  options: RestoreOptions
+): { records: T[]; changed: { record: T; source: T }[]; summary: RestoreSummary } {
+  const summary: RestoreSummary = { key, incoming: incoming.length, added: 0, unchanged: 0, conflicts: 0, removed: 0 };
+  if (options.mode === "replace") {
+    const kept = new Set(incoming.map(r => identity(key, r)));
+    const ours = new Set(current.map(r => comparable(key, r)));
+    summary.unchanged = incoming.filter(r => ours.has(comparable(key, r))).length;
+    summary.added = incoming.length - summary.unchanged;
+    summary.removed = current.filter(r => !kept.has(identity(key, r))).length;
+    return { records: incoming, changed: incoming.map(record => ({ record, source: record })), summary };
+  }
+
+  const records = [...current];
+  // `source` is the backup's record a changed one came from; they differ when it was duplicated under a new id.
+  const changed: { record: T; source: T }[] = [];
+  const index = new Map(current.map((r, i) => [identity(key, r), i]));
+  for (const record of incoming) {
+    const at = index.get(identity(key, record));
+    if (at === undefined) {
+      summary.added++;
+      records.push(record);
+      changed.push({ record, source: record });
+    } else if (comparable(key, records[at]) === comparable(key, record)) {
+      summary.unchanged++;
+    } else {
+      summary.conflicts++;
+      if (options.conflicts === "overwrite") {
+        records[at] = record;
+        changed.push({ record, source: record });
+      } else if (options.conflicts === "duplicate") {
+        const copy = { ...record, id: ulid(), ...(key === "scripts" || key === "profiles" ? { name: `${identity(key, record)}-restored` } : {}) };
+        records.push(copy);
+        changed.push({ record: copy, source: record });
+      }
+    }
+  }
+  return { records, changed, summary };
+}
+
+/** Takes a single value from the backup when it replaces, or fills in or overwrites ours when it merges. */
+function mergeValue<T>(key: "emailAddress" | "activeProfile", ours: T, theirs: T, empty: T, options: RestoreOptions): { take: boolean; summary: RestoreSummary } {
+  const same = ours === theirs;
+  const conflict = !same && ours !== empty && theirs !== empty;
+  const take = options.mode === "replace" || (!same && (ours === empty || options.conflicts === "overwrite"));
+  return {
+    take,
+    summary: { key, incoming: 1, added: take && !conflict ? 1 : 0, unchanged: same ? 1 : 0, conflicts: conflict ? 1 : 0, removed: 0 },
+  };
+}
+
+/** The id the backup's active profile has after the restore; like profiles themselves, it is found by name. */
+function restoredProfileId(id: string | null, backedUp: FeatureProfile[], restored: FeatureProfile[]): string | null {
+  if (id === null) return null;
+  const name = backedUp.find(p => p.id === id)?.name;
+  return (restored.find(p => p.id === id) ?? restored.find(p => p.name === name))?.id ?? null;
+}
+
+function mergeNamed<T>(
+  key: "aliases" | "variables" | "retention",
+  current: Record<string, T>,
+  incoming: Record<string, T>,
+  options: RestoreOptions
+): { value: Record<string, T>; summary: RestoreSummary } {
+  const names = Object.keys(incoming);
+  const same = (name: string) => JSON.stringify(current[name]) === JSON.stringify(incoming[name]);
+  const summary: RestoreSummary = { key, incoming: names.length, added: 0, unchanged: 0, conflicts: 0, removed: 0 };
+  if (options.mode === "replace") {
+    summary.unchanged = names.filter(n => n in current && same(n)).length;
+    summary.added = names.length - summary.unchanged;
+    summary.removed = Object.keys(current).filter(n => !(n in incoming)).length;
+    return { value: incoming, summary };
+  }
+  const value = { ...current };
+  for (const name of names) {
+    if (!(name in current)) {
+      summary.added++;
+      value[name] = incoming[name];
+    } else if (same(name)) {
+      summary.unchanged++;
+    } else {
+      summary.conflicts++;
+      if (options.conflicts === "overwrite") value[name] = incoming[name];
+    }
+  }
+  return { value, summary };
+}
+
+/**
+ * Works out what restoring `backup` over `current` and the log database
+ * would change, without changing anything. Keys the backup does not carry
+ * are left alone, even by a replace, except that the active profile is
+ * cleared when the restore removes it.
+ */
+export async function planRestore(backup: Backup, current: AppData, options: RestoreOptions): Promise<RestorePlan> {
+  const plan: RestorePlan = { options, createdAt: backup.createdAt, values: {}, logOps: [], photos: [], summary: [] };
+  const { data } = backup;
+
+  for (const key of ["features", "emailQueue", "scripts", "schedules", "profiles"] as const) {
+    const incoming = data[key];
+    if (!incoming) continue;
+    const merged = mergeRecords<{ id: string }>(key, current[key], incoming, options);
+    (plan.values as Record<string, unknown>)[key] = merged.records;
+    plan.summary.push(merged.summary);
+  }
+
+  for (const key of ["aliases", "variables"] as const) {
+    const incoming = data[key];
+    if (!incoming) continue;
+    const merged = mergeNamed(key, current[key], incoming, options);
+    plan.values[key] = merged.value;
+    plan.summary.push(merged.summary);
+  }
+
+  if (data.retention) {
+    const merged = mergeNamed("retention", current.retention, data.retention, options);
+    plan.values.retention = merged.value;
+    plan.summary.push(merged.summary);
+  }
+
+  for (const key of ["networkEvents", "featureAudit"] as const) {
+    const incoming = data[key];
+    if (!incoming) continue;
+    const merged = mergeRecords<{ id: string; at: string }>(key, current[key], incoming, options);
+    // Both are kept newest first, and merged records are appended.
+    (plan.values as Record<string, unknown>)[key] = merged.records.sort((a, b) => b.at.localeCompare(a.at));
+    plan.summary.push(merged.summary);
+  }
+
+  if (data.emailAddress !== undefined) {
+    const merged = mergeValue("emailAddress", current.emailAddress, data.emailAddress, "", options);
+    if (merged.take) plan.values.emailAddress = data.emailAddress;
+    plan.summary.push(merged.summary);
+  }
+
+  const profiles = plan.values.profiles ?? current.profiles;
+  if (data.activeProfile !== undefined) {
+    const theirs = restoredProfileId(data.activeProfile, data.profiles ?? current.profiles, profiles);
+    const merged = mergeValue("activeProfile", current.activeProfile, theirs, null, options);
+    if (merged.take) plan.values.activeProfile = theirs;
+    plan.summary.push(merged.summary);
+  }
+  // A replace can drop the active profile even when the backup does not say which one was active.
+  const active = plan.values.activeProfile !== undefined ? plan.values.activeProfile : current.activeProfile;
+  if (active !== null && !profiles.some(p => p.id === active)) plan.values.activeProfile = null;
+
+  for (const key of Object.keys(LOG_KEYS) as LogKey[]) {
+    const incoming = data[key];
+    if (!incoming) continue;
+    const kind = LOG_KEYS[key];
+    const existing = await allLogs(kind);
+    const merged = mergeRecords<LogRecords[LogKind]>(key, existing, incoming, options);
+    const photoFolder = kind === "photo" && merged.changed.length ? await documentFolder("photos") : "";
+    const records = merged.changed.map(({ record, source }) => {
+      const photo = kind === "photo" ? backup.photos[source.id] : undefined;
+      if (!photo) return record;
+      const ext = photo.name.includes(".") ? photo.name.slice(photo.name.lastIndexOf(".")) : "";
+      const uri = `${photoFolder}${record.id}${ext}`;
+      plan.photos.push({ uri, data: photo.data });
+      return { ...record, uri };
+    });
+    if (options.mode === "replace") plan.logOps.push({ type: "purge", kind });
+    if (records.length) plan.logOps.push({ type: "insert", kind, records, replace: options.conflicts === "overwrite" } as LogOp);
+    plan.summary.push(merged.summary);
+  }
+
+  return plan;
+}
+
+/**
+ * Writes the photo files and log changes of a plan. The caller applies
+ * `plan.values` to the app state, which persists them as usual.
+ */
+export async function applyRestorePlan(plan: RestorePlan): Promise<void> {
+  for (const { uri, data } of plan.photos) await writeFileBytes(uri, fromBase64(data));
+  // Queued log writes go first so that a replace also purges them.
+  await writeQueue.flush();
+  await applyLogOps(plan.logOps);
+}
+
+/** One line per changed key, for previews and command output. */
+export function describeSummary(summary: RestoreSummary[]): string {
+  if (summary.length === 0) return "The backup contains no data.";
+  return summary
+    .map(s => {
+      const parts = [`${s.added} new`];
+      if (s.unchanged) parts.push(`${s.unchanged} unchanged`);
+      if (s.conflicts) parts.push(`${s.conflicts} conflicting`);
+      if (s.removed) parts.push(`${s.removed} removed`);
+      return `  ${s.key}: ${parts.join(", ")}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,55 @@
+import type { Feature } from "@/context/AppContext";
+import { registry } from "@/lib/commands";
+import { planFeatureChange, planFeatureRemoval } from "@/lib/features";
+import { makeContext, makeFeature, mockActions } from "@/lib/test-utils";
+import "@/lib/builtin-commands";
+
+const gps = makeFeature("f001", { name: "GPS Tracking", enabled: true });
+const autoLog = makeFeature("f006", { name: "Auto GPS Log", enabled: true, requires: ["f001"] });
+
+describe("enable and disable", () => {
+  it("set the state instead of flipping it", () => {
+    const ctx = makeContext({ features: [makeFeature("f001", { enabled: true }), makeFeature("f002")] });
+    registry.execute("enable f002", ctx);
+    registry.execute("disable f001", ctx);
+    expect(ctx.actions.setFeatureEnabled).toHaveBeenNthCalledWith(1, "f002", true, false);
+    expect(ctx.actions.setFeatureEnabled).toHaveBeenNthCalledWith(2, "f001", false, false);
+  });
+
+  it("explain changes to other features unless --cascade is given", () => {
+    const features = [makeFeature("f001", { name: "GPS Tracking" }), makeFeature("f006", { name: "Auto GPS Log", requires: ["f001"] })];
+    const ctx = makeContext({ features, actions: mockActions({ setFeatureEnabled: jest.fn((id: string, enabled: boolean) => planFeatureChange(features, id, enabled)) }) });
+    expect(registry.execute("enable f006", ctx)).toEqual({
+      success: false,
+      message: "Auto GPS Log affects other features:\nEnable Auto GPS Log\nEnable GPS Tracking (required by Auto GPS Log)\nRun again with --cascade to apply all of it.",
+    });
+    expect(registry.execute("enable f006 --cascade", ctx)).toEqual({
+      success: true,
+      message: "Enabled: Auto GPS Log\nEnabled: GPS Tracking (required by Auto GPS Log)",
+    });
+  });
+});
+
+describe("remove", () => {
+  const planned = (features: Feature[]) => mockActions({ removeFeature: jest.fn((id: string) => planFeatureRemoval(features, id)) });
+
+  it("removes a feature nothing requires", () => {
+    const ctx = makeContext({ features: [gps, autoLog], actions: planned([gps, autoLog]) });
+    expect(registry.execute("remove f006", ctx)).toEqual({ success: true, message: "Removed: Auto GPS Log" });
+    expect(ctx.actions.removeFeature).toHaveBeenCalledWith("f006", false);
+  });
+
+  it("refuses to remove a required feature and lists what requires it", () => {
+    const ctx = makeContext({ features: [gps, autoLog], actions: planned([gps, autoLog]) });
+    expect(registry.execute("rm f001", ctx)).toEqual({
+      success: false,
+      message: "GPS Tracking is in use:\nRequired by Auto GPS Log.\nDisable Auto GPS Log (requires GPS Tracking)\nRun again with --cascade to remove it anyway.",
+    });
+  });
+
+  it("turns the dependents off with --cascade", () => {
+    const ctx = makeContext({ features: [gps, autoLog], actions: planned([gps, autoLog]) });
+    expect(registry.execute("remove f001 --cascade", ctx)).toEqual({ success: true, message: "Removed: GPS Tracking\nDisabled: Auto GPS Log (requires GPS Tracking)" });
+    expect(ctx.actions.removeFeature).toHaveBeenCalledWith("f001", true);
+  });
+});
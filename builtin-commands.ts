@@ -0,0 +1,362 @@
+import { Platform } from "react-native";
+import type { Feature, FeatureLinks, AuditEntry, AuditSource } from "@/context/AppContext";
+import { registry, Row, Column, CommandActions, CommandResult } from "@/lib/commands";
+import { shortIds, matchId } from "@/lib/ids";
+import { describeConnectivity } from "@/lib/network";
+import { AUDIT_SOURCES, AUDIT_ACTIONS, describeAuditChange, filterAudit } from "@/lib/audit";
+import {
+  FEATURE,
+  describePlan,
+  describeRemoval,
+  dependencyTree,
+  configValue,
+  formatConfigValue,
+  describeParam,
+  parseConfigValue,
+} from "@/lib/features";
+
+const FEATURE_COLUMNS: Column[] = [
+  { key: "id", type: "feature" },
+  { key: "name" },
+  { key: "category" },
+  { key: "enabled", type: "boolean" },
+];
+
+const formatFeatureRow = (r: Row) => `  [${r.enabled ? "ON " : "OFF"}] ${r.id} — ${r.name} (${r.category})`;
+
+const formatGPSRow = (r: Row) =>
+  `  ${new Date(String(r.time)).toLocaleString()}  ${Number(r.lat).toFixed(5)}, ${Number(r.lng).toFixed(5)}  ±${r.accuracy}m`;
+
+registry.register({
+  name: "list",
+  aliases: ["ls"],
+  summary: "list all features",
+  handler: (_args, { features }) => {
+    const short = shortIds(features.map(f => f.id));
+    const data: Row[] = features.map(f => ({ id: short.get(f.id)!, name: f.name, category: f.category, enabled: f.enabled }));
+    if (features.length === 0) return { success: true, message: "No features registered.", data, format: formatFeatureRow };
+    const featureList = data.map(formatFeatureRow).join("\n");
+    return {
+      success: true,
+      message: `Features (${features.length}):\n${featureList}`,
+      data,
+      format: formatFeatureRow,
+      output: { kind: "table", columns: FEATURE_COLUMNS, rows: data },
+    };
+  },
+});
+
+registry.register({
+  name: "gps",
+  summary: "list GPS log entries, oldest first",
+  handler: (_args, { gpsLogs }) => {
+    const data: Row[] = [...gpsLogs]
+      .reverse()
+      .map(g => ({ time: g.timestamp, lat: g.lat, lng: g.lng, accuracy: g.accuracy }));
+    if (data.length === 0) return { success: true, message: "No GPS logs.", data, format: formatGPSRow };
+    return {
+      success: true,
+      message: `GPS logs (${data.length}):\n${data.map(formatGPSRow).join("\n")}`,
+      data,
+      format: formatGPSRow,
+      output: { kind: "coordinates", rows: data },
+    };
+  },
+});
+
+/** Turns `f` on or off, refusing when other features would change too unless `cascade` is set. */
+function switchFeature(f: Feature, enabled: boolean, cascade: boolean, actions: CommandActions): CommandResult {
+  const plan = actions.setFeatureEnabled(f.id, enabled, cascade);
+  if (plan.blocked) return { success: false, message: `Cannot ${enabled ? "enable" : "disable"} ${f.name}: ${plan.blocked}` };
+  if (plan.changes.length > 1 && !cascade) {
+    return { success: false, message: `${f.name} affects other features:\n${describePlan(plan)}\nRun again with --cascade to apply all of it.` };
+  }
+  return { success: true, message: describePlan(plan).replace(/^(En|Dis)able /gm, "$1abled: ") };
+}
+
+const CASCADE_OPTION = { name: "cascade", type: "boolean", summary: "also change the features this one requires or conflicts with" } as const;
+
+registry.register({
+  name: "enable",
+  args: [{ name: "feature", type: "feature", rest: true }],
+  options: [CASCADE_OPTION],
+  summary: "enable feature",
+  description: "Enable a feature by id or by its full name. Features it requires are turned on and conflicting ones off only with --cascade.",
+  handler: ({ feature, cascade }, { actions }) => {
+    const f = feature as Feature;
+    if (f.enabled) return { success: true, message: `${f.name} is already enabled.` };
+    return switchFeature(f, true, !!cascade, actions);
+  },
+});
+
+registry.register({
+  name: "disable",
+  args: [{ name: "feature", type: "feature", rest: true }],
+  options: [CASCADE_OPTION],
+  summary: "disable feature",
+  description: "Disable a feature by id or by its full name. Features that require it are turned off only with --cascade.",
+  handler: ({ feature, cascade }, { actions }) => {
+    const f = feature as Feature;
+    if (!f.enabled) return { success: true, message: `${f.name} is already disabled.` };
+    return switchFeature(f, false, !!cascade, actions);
+  },
+});
+
+registry.register({
+  name: "deps",
+  args: [{ name: "feature", type: "feature", rest: true }],
+  summary: "show what a feature requires and conflicts with",
+  handler: ({ feature }, { features }) => ({ success: true, message: dependencyTree(features, (feature as Feature).id) }),
+});
+
+const formatConfigRow = (r: Row) => `  ${r.key} = ${r.value}  (${r.allowed}, default ${r.default})`;
+
+registry.register({
+  name: "config",
+  args: [{ name: "feature", type: "feature" }, { name: "key", optional: true }, { name: "value", optional: true, rest: true }],
+  options: [{ name: "reset", type: "boolean", summary: "go back to the default value" }],
+  summary: "show or change a feature's settings",
+  description: "config <feature> lists its settings, config <feature> <key> <value> changes one and --reset restores its default. Durations take values such as 30s or 5m.",
+  handler: (args, { actions }) => {
+    const f = args.feature as Feature;
+    const key = args.key as string | undefined;
+    const value = args.value as string | undefined;
+    const params = f.params ?? [];
+    if (!key) {
+      const data: Row[] = params.map(p => ({
+        key: p.key,
+        value: formatConfigValue(p, configValue(f, p.key)!),
+        allowed: describeParam(p),
+        default: formatConfigValue(p, p.default),
+      }));
+      if (data.length === 0) return { success: true, message: `${f.name} has no settings.`, data, format: formatConfigRow };
+      const columns: Column[] = [{ key: "key" }, { key: "value" }, { key: "allowed" }, { key: "default" }];
+      return { success: true, message: `${f.name}:\n${data.map(formatConfigRow).join("\n")}`, data, format: formatConfigRow, output: { kind: "table", columns, rows: data } };
+    }
+    const param = params.find(p => p.key.toLowerCase() === key.toLowerCase());
+    if (!param) {
+      const known = params.length ? ` Settings: ${params.map(p => p.key).join(", ")}` : "";
+      return { success: false, message: `${f.name} has no setting '${key}'.${known}` };
+    }
+    if (args.reset) {
+      actions.setFeatureConfig(f.id, param.key, null);
+      return { success: true, message: `${f.name} ${param.key} reset to ${formatConfigValue(param, param.default)}` };
+    }
+    if (value === undefined) {
+      return { success: true, message: `${f.name} ${param.key} = ${formatConfigValue(param, configValue(f, param.key)!)} (${describeParam(param)})` };
+    }
+    const parsed = parseConfigValue(param, value);
+    if ("error" in parsed) return { success: false, message: parsed.error };
+    actions.setFeatureConfig(f.id, param.key, parsed.value);
+    return { success: true, message: `${f.name} ${param.key} = ${formatConfigValue(param, parsed.value)}` };
+  },
+});
+
+const DEFAULT_AUDIT_LIMIT = 50;
+
+const formatAuditRow = (r: Row) => `  ${new Date(String(r.time)).toLocaleString()}  ${r.feature}: ${r.change} (${r.source})`;
+
+registry.register({
+  name: "audit",
+  args: [{ name: "feature", optional: true, rest: true }],
+  options: [
+    { name: "source", summary: AUDIT_SOURCES.join(", ") },
+    { name: "action", summary: AUDIT_ACTIONS.join(", ") },
+    { name: "since", type: "duration", summary: "only changes within this long, e.g. 1d" },
+    { name: "limit", type: "number", summary: `most recent entries to show (default ${DEFAULT_AUDIT_LIMIT})` },
+  ],
+  summary: "show the history of feature changes",
+  description: "Lists feature changes newest first. Give a feature name or id, including removed ones, to see only its history: audit f006 --source command --since 7d",
+  handler: (args, { featureAudit }) => {
+    const feature = args.feature as string | undefined;
+    const source = args.source as AuditSource | undefined;
+    const action = args.action as AuditEntry["action"] | undefined;
+    const since = args.since as number | undefined;
+    const limit = args.limit as number | undefined;
+    if (source !== undefined && !AUDIT_SOURCES.includes(source)) return { success: false, message: `Unknown source '${source}'. Use one of: ${AUDIT_SOURCES.join(", ")}` };
+    if (action !== undefined && !AUDIT_ACTIONS.includes(action)) return { success: false, message: `Unknown action '${action}'. Use one of: ${AUDIT_ACTIONS.join(", ")}` };
+
+    let featureId: string | undefined;
+    if (feature) {
+      // Removed features are only known from the trail itself, so match against that rather than the feature list.
+      const known = [...new Map(featureAudit.map(e => [e.featureId, { id: e.featureId, name: e.featureName }])).values()];
+      const named = known.filter(f => f.name.toLowerCase() === feature.toLowerCase());
+      const matches = named.length ? named : matchId(known, feature);
+      if (matches.length > 1) return { success: false, message: `Ambiguous feature '${feature}' matches ${matches.length} features` };
+      if (!matches.length) return { success: true, message: `No changes recorded for ${feature}.`, data: [], format: formatAuditRow };
+      featureId = matches[0].id;
+    }
+
+    const entries = filterAudit(featureAudit, { featureId, source, action, since: since !== undefined ? Date.now() - since : undefined });
+    const shown = entries.slice(0, Math.max(1, limit ?? DEFAULT_AUDIT_LIMIT));
+    const data: Row[] = shown.map(e => ({ time: e.at, feature: e.featureName, id: e.featureId, change: describeAuditChange(e), source: e.source }));
+    if (data.length === 0) return { success: true, message: "No matching feature changes.", data, format: formatAuditRow };
+    const more = entries.length > shown.length ? `\n  … ${entries.length - shown.length} older (use --limit)` : "";
+    const columns: Column[] = [{ key: "time", type: "time" }, { key: "feature" }, { key: "change" }, { key: "source" }];
+    return {
+      success: true,
+      message: `Feature changes (${shown.length} of ${entries.length}):\n${data.map(formatAuditRow).join("\n")}${more}`,
+      data,
+      format: formatAuditRow,
+      output: { kind: "table", columns, rows: data },
+    };
+  },
+});
+
+/** Resolves a comma-separated list of feature names or ids. */
+function featureList(text: string | undefined, features: Feature[]): string[] | string {
+  const ids: string[] = [];
+  for (const part of (text ?? "").split(",").map(p => p.trim()).filter(Boolean)) {
+    const named = features.find(f => f.name.toLowerCase() === part.toLowerCase());
+    const matches = named ? [named] : matchId(features, part);
+    if (matches.length !== 1) return matches.length ? `Ambiguous id '${part}' matches ${matches.length} features` : `Feature not found: ${part}`;
+    ids.push(matches[0].id);
+  }
+  return ids;
+}
+
+registry.register({
+  name: "add",
+  args: [{ name: "name" }, { name: "description" }, { name: "category", type: "category", optional: true }],
+  options: [
+    { name: "category", type: "category", summary: "category, instead of the third argument" },
+    { name: "requires", summary: "comma-separated features that must be on while this one is" },
+    { name: "conflicts", summary: "comma-separated features that cannot be on with this one" },
+  ],
+  summary: "add feature",
+  description: 'Add a feature. Quote values that contain spaces: add "Night Vision" "IR capture mode" Sensors --requires f002',
+  handler: (args, { actions, features }) => {
+    const name = args.name as string;
+    const description = args.description as string;
+    const category = args.category as string | undefined;
+    const requires = args.requires as string | undefined;
+    const conflicts = args.conflicts as string | undefined;
+    if (!name.trim() || !description.trim()) return { success: false, message: "Name and description are required." };
+    const cat = category?.trim() || "Custom";
+    const required = featureList(requires, features);
+    const conflicting = featureList(conflicts, features);
+    if (typeof required === "string") return { success: false, message: required };
+    if (typeof conflicting === "string") return { success: false, message: conflicting };
+    const clash = required.find(id => conflicting.includes(id));
+    if (clash) return { success: false, message: `${clash} cannot be both required and conflicting.` };
+    const links: FeatureLinks = {};
+    if (required.length) links.requires = required;
+    if (conflicting.length) links.conflictsWith = conflicting;
+    actions.addFeature(name.trim(), description.trim(), cat, links);
+    return { success: true, message: `Feature added: ${name.trim()} [${cat}]` };
+  },
+});
+
+registry.register({
+  name: "remove",
+  aliases: ["rm"],
+  args: [{ name: "feature", type: "feature", rest: true }],
+  options: [{ name: "cascade", type: "boolean", summary: "remove it even though other features require it, turning them off" }],
+  summary: "remove feature",
+  description: "Remove a feature by id or by its full name. A feature that others require is only removed with --cascade, which turns those off.",
+  handler: ({ feature, cascade }, { actions }) => {
+    const f = feature as Feature;
+    const plan = actions.removeFeature(f.id, !!cascade);
+    if (plan.blocked) return { success: false, message: `Cannot remove ${f.name}: ${plan.blocked}` };
+    if (plan.dependents.length && !cascade) {
+      return { success: false, message: `${f.name} is in use:\n${describeRemoval(plan)}\nRun again with --cascade to remove it anyway.` };
+    }
+    const disabled = plan.changes.filter(c => c.feature.id !== f.id).map(c => `\nDisabled: ${c.feature.name} (${c.because})`);
+    return { success: true, message: `Removed: ${f.name}${disabled.join("")}` };
+  },
+});
+
+registry.register({
+  name: "history",
+  args: [{ name: "count", type: "number", optional: true, min: 1 }],
+  summary: "list previous inputs; recall with !! or !n",
+  handler: (args, { history }) => {
+    const count = args.count as number | undefined;
+    const data: Row[] = history.map((command, i) => ({ n: i + 1, command }));
+    const shown = count ? data.slice(-count) : data;
+    const format = (r: Row) => `  ${String(r.n).padStart(4)}  ${r.command}`;
+    if (shown.length === 0) return { success: true, message: "History is empty.", data: shown, format };
+    const columns: Column[] = [{ key: "n", label: "#", type: "number" }, { key: "command" }];
+    return { success: true, message: shown.map(format).join("\n"), data: shown, format, output: { kind: "table", columns, rows: shown } };
+  },
+});
+
+registry.register({
+  name: "status",
+  summary: "system status",
+  handler: (_args, { features, emailAddress, isOnline, networkEvents }) => {
+    const enabled = features.filter(f => f.enabled).length;
+    const watching = features.some(f => f.id === FEATURE.networkWatch && f.enabled);
+    const entries = [
+      { key: "Features", value: `${enabled}/${features.length} active` },
+      { key: "Email", value: emailAddress || "not configured" },
+      { key: "Network", value: describeConnectivity(watching, isOnline, networkEvents) },
+      { key: "Platform", value: Platform.OS },
+      { key: "Version", value: "1.0.0" },
+    ];
+    return {
+      success: true,
+      message: `System Status:\n${entries.map(e => `  ${e.key}: ${e.value}`).join("\n")}`,
+      output: { kind: "keyValue", entries },
+    };
+  },
+});
+
+registry.register({
+  name: "clear-logs",
+  summary: "clear command logs",
+  handler: (_args, { actions }) => {
+    actions.clearCommandLogs();
+    return { success: true, message: "Command logs cleared." };
+  },
+});
+
+registry.register({
+  name: "clear-gps",
+  summary: "clear GPS logs",
+  handler: (_args, { actions }) => {
+    actions.clearGPSLogs();
+    return { success: true, message: "GPS logs cleared." };
+  },
+});
+
+registry.register({
+  name: "undo",
+  summary: "revert the last change",
+  description: "Revert the last feature change or log clear, whether made here or in Settings.",
+  handler: (_args, { actions }) => {
+    const entry = actions.undo();
+    if (!entry) return { success: false, message: "Nothing to undo." };
+    return { success: true, message: `Undone: ${entry.label}` };
+  },
+});
+
+registry.register({
+  name: "redo",
+  summary: "re-apply the last undone change",
+  handler: (_args, { actions }) => {
+    const entry = actions.redo();
+    if (!entry) return { success: false, message: "Nothing to redo." };
+    return { success: true, message: `Redone: ${entry.label}` };
+  },
+});
+
+registry.register({
+  name: "sync-email",
+  summary: "queue data for email sync",
+  handler: (_args, { features, emailAddress, actions }) => {
+    if (!features.some(f => f.id === FEATURE.emailSync && f.enabled)) return { success: false, message: `Email Sync is off. Run 'enable ${FEATURE.emailSync}' first.` };
+    if (!emailAddress) return { success: false, message: "No email configured. Set it in Settings first." };
+    actions.addEmailQueue(
+      "Rubel Engine Data Sync",
+      `Sync request at ${new Date().toLocaleString()}\nFeatures: ${features.filter(f => f.enabled).map(f => f.name).join(", ")}`
+    );
+    return { success: true, message: `Email queued for: ${emailAddress}` };
+  },
+});
+
+registry.register({
+  name: "version",
+  summary: "app version",
+  handler: () => ({ success: true, message: "Rubel Engine v1.0.0\nBuilt with Expo React Native\n100% offline-capable" }),
+});
@@ -0,0 +1,83 @@
+import { tokenize, splitSteps, parseDuration, formatDuration, formatSyntaxError, CommandSyntaxError } from "@/lib/command-parser";
+
+const values = (input: string) => tokenize(input).map(t => t.value);
+
+function syntaxError(run: () => unknown): CommandSyntaxError {
+  try {
+    run();
+  } catch (e) {
+    if (e instanceof CommandSyntaxError) return e;
+    throw e;
+  }
+  throw new Error("Expected a CommandSyntaxError");
+}
+
+describe("tokenize", () => {
+  it("splits on whitespace and records offsets", () => {
+    expect(tokenize("  enable   f001 ")).toEqual([
+      { value: "enable", start: 2, end: 8, quoted: false },
+      { value: "f001", start: 11, end: 15, quoted: false },
+    ]);
+  });
+
+  it("unescapes double quotes and keeps single quotes literal", () => {
+    expect(values(String.raw`add "Night \"IR\" Vision" 'a\nb' c\ d`)).toEqual(["add", 'Night "IR" Vision', String.raw`a\nb`, "c d"]);
+    expect(values(String.raw`echo "tab\there"`)).toEqual(["echo", "tab\there"]);
+  });
+
+  it("joins quoted and unquoted parts of one word", () => {
+    const [tok] = tokenize(`pre"fix "post`);
+    expect(tok).toMatchObject({ value: "prefix post", quoted: true });
+  });
+
+  it("makes an unquoted pipe a token of its own", () => {
+    expect(tokenize("list|grep x").map(t => [t.value, !!t.pipe])).toEqual([["list", false], ["|", true], ["grep", false], ["x", false]]);
+    expect(tokenize('grep "a|b"').some(t => t.pipe)).toBe(false);
+  });
+
+  it("reports unterminated quotes and dangling escapes where they start", () => {
+    expect(syntaxError(() => tokenize('add "Night'))).toMatchObject({ message: "Unterminated double quote", start: 4, end: 10 });
+    expect(syntaxError(() => tokenize("add x\\"))).toMatchObject({ message: "Dangling escape at end of input", start: 5 });
+  });
+});
+
+describe("splitSteps", () => {
+  it("splits on semicolons outside quotes and drops empty steps", () => {
+    expect(splitSteps(`enable f003 ;; add "a;b" 'c;d' ; sync-email;`)).toEqual(["enable f003", `add "a;b" 'c;d'`, "sync-email"]);
+  });
+
+  it("keeps escaped semicolons in the step", () => {
+    expect(splitSteps(String.raw`add a\;b x; list`)).toEqual([String.raw`add a\;b x`, "list"]);
+  });
+});
+
+describe("durations", () => {
+  it("parses units and bare seconds", () => {
+    expect(parseDuration("1h30m")).toBe(5_400_000);
+    expect(parseDuration("250ms")).toBe(250);
+    expect(parseDuration("90")).toBe(90_000);
+    expect(parseDuration("1.5s")).toBe(1500);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseDuration("5 minutes")).toBeNull();
+    expect(parseDuration("m5")).toBeNull();
+    expect(parseDuration("")).toBeNull();
+  });
+
+  it("formats with the largest units first", () => {
+    expect(formatDuration(90_061_000)).toBe("1d1h1m1s");
+    expect(formatDuration(0)).toBe("0s");
+    expect(formatDuration(250)).toBe("250ms");
+  });
+});
+
+describe("formatSyntaxError", () => {
+  it("marks the offending span", () => {
+    expect(formatSyntaxError("enable f0x9", new CommandSyntaxError("Feature not found: f0x9", 7, 11))).toBe("Feature not found: f0x9\n  enable »f0x9« (col 8)");
+  });
+
+  it("marks a missing argument at the end", () => {
+    expect(formatSyntaxError("enable ", new CommandSyntaxError("Missing argument <feature>", 7, 7))).toBe("Missing argument <feature>\n  enable »_« (col 8)");
+  });
+});
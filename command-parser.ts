@@ -0,0 +1,193 @@
+export interface Token {
+  value: string;
+  /** Offset of the first character of the token in the raw input. */
+  start: number;
+  /** Offset just past the last character of the token in the raw input. */
+  end: number;
+  quoted: boolean;
+  /** Set for an unquoted `|`, which separates the stages of a pipeline. */
+  pipe?: boolean;
+}
+
+export class CommandSyntaxError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = "CommandSyntaxError";
+    this.start = start;
+    this.end = end;
+  }
+
+  static at(message: string, token: Pick<Token, "start" | "end">): CommandSyntaxError {
+    return new CommandSyntaxError(message, token.start, token.end);
+  }
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "0": "\0" };
+
+/**
+ * Splits a command line into tokens. Whitespace separates tokens, double
+ * quotes allow backslash escapes, single quotes are taken literally and a
+ * backslash outside quotes escapes the next character. An unquoted `|` is
+ * always a token of its own.
+ */
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    while (i < input.length && /\s/.test(input[i])) i++;
+    if (i >= input.length) break;
+
+    if (input[i] === "|") {
+      tokens.push({ value: "|", start: i, end: i + 1, quoted: false, pipe: true });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let value = "";
+    let quoted = false;
+
+    while (i < input.length && !/\s/.test(input[i]) && input[i] !== "|") {
+      const ch = input[i];
+      if (ch === "'" || ch === '"') {
+        const open = i;
+        quoted = true;
+        i++;
+        while (i < input.length && input[i] !== ch) {
+          if (ch === '"' && input[i] === "\\" && i + 1 < input.length) {
+            const next = input[i + 1];
+            value += ESCAPES[next] ?? next;
+            i += 2;
+          } else {
+            value += input[i++];
+          }
+        }
+        if (i >= input.length) throw new CommandSyntaxError(`Unterminated ${ch === '"' ? "double" : "single"} quote`, open, input.length);
+        i++;
+      } else if (ch === "\\") {
+        if (i + 1 >= input.length) throw new CommandSyntaxError("Dangling escape at end of input", i, i + 1);
+        value += input[i + 1];
+        i += 2;
+      } else {
+        value += ch;
+        i++;
+      }
+    }
+
+    tokens.push({ value, start, end: i, quoted });
+  }
+
+  return tokens;
+}
+
+/** Splits tokens on pipe operators. Every stage must contain at least one token. */
+export function splitPipeline(tokens: Token[]): Token[][] {
+  const stages: Token[][] = [[]];
+  for (const tok of tokens) {
+    if (!tok.pipe) {
+      stages[stages.length - 1].push(tok);
+      continue;
+    }
+    if (stages[stages.length - 1].length === 0) throw CommandSyntaxError.at("Expected a command before '|'", tok);
+    stages.push([]);
+  }
+  const last = tokens[tokens.length - 1];
+  if (last?.pipe) throw CommandSyntaxError.at("Expected a filter after '|'", last);
+  return tokens.length ? stages : [];
+}
+
+/**
+ * Splits script text into steps on `;` outside of quotes. Empty steps are
+ * dropped and surrounding whitespace is trimmed.
+ */
+export function splitSteps(text: string): string[] {
+  const steps: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\" && quote !== "'" && i + 1 < text.length) {
+      current += ch + text[++i];
+    } else if (quote) {
+      if (ch === quote) quote = null;
+      current += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      current += ch;
+    } else if (ch === ";") {
+      steps.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  steps.push(current);
+
+  return steps.map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Renders a syntax error with the offending span of the input marked, e.g.
+ * `enable »f0x9« (col 8)`; a missing argument is shown as `»_«` at the end.
+ * Markers are used instead of a caret line because the log font is
+ * proportional.
+ */
+export function formatSyntaxError(input: string, err: CommandSyntaxError): string {
+  const start = Math.min(err.start, input.length);
+  const end = Math.max(start, Math.min(err.end, input.length));
+  const span = end > start ? input.slice(start, end) : "_";
+  const before = end > start ? input.slice(0, start) : `${input.slice(0, start).trimEnd()} `;
+  const marked = `${before}»${span}«${input.slice(end)}`;
+  return `${err.message}\n  ${marked} (col ${start + 1})`;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parses durations such as `30s`, `5m`, `1h30m` or `2d` into milliseconds.
+ * A bare number is read as seconds. Returns null when the text is not a
+ * valid duration.
+ */
+export function parseDuration(text: string): number | null {
+  const trimmed = text.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(parseFloat(trimmed) * 1000);
+  if (!/^(\d+(\.\d+)?(ms|s|m|h|d|w))+$/.test(trimmed)) return null;
+
+  let total = 0;
+  for (const [, amount, , unit] of trimmed.matchAll(/(\d+(\.\d+)?)(ms|s|m|h|d|w)/g)) {
+    total += parseFloat(amount) * DURATION_UNITS[unit];
+  }
+  return Math.round(total);
+}
+
+export function formatDuration(ms: number): string {
+  if (ms <= 0) return "0s";
+  const parts: string[] = [];
+  let rest = ms;
+  for (const unit of ["d", "h", "m", "s"]) {
+    const size = DURATION_UNITS[unit];
+    if (rest >= size) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  return parts.join("") || `${ms}ms`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
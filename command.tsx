@@ -1,4 +1,4 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useMemo } from "react";
 import {
   View,
   Text,
@@ -7,158 +7,65 @@ import {
   Pressable,
   FlatList,
   Platform,
+  Share,
   KeyboardAvoidingView,
+  NativeSyntheticEvent,
+  TextInputKeyPressEventData,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import Animated, { useSharedValue, useAnimatedStyle, withTiming, withSequence } from "react-native-reanimated";
 import * as Haptics from "expo-haptics";
+import { haptics } from "@/lib/haptics";
 import { Colors } from "@/constants/colors";
-import { useApp, Feature } from "@/context/AppContext";
-
-type CommandResult = {
-  success: boolean;
-  message: string;
-  data?: any;
-};
-
-function processCommand(
-  input: string,
-  features: Feature[],
-  actions: {
-    toggleFeature: (id: string) => void;
-    addFeature: (name: string, desc: string, cat: string) => void;
-    removeFeature: (id: string) => void;
-    clearCommandLogs: () => void;
-    clearGPSLogs: () => void;
-    addEmailQueue: (sub: string, body: string) => void;
-    emailAddress: string;
-  }
-): CommandResult {
-  const parts = input.trim().split(/\s+/);
-  const cmd = parts[0]?.toLowerCase();
-  const args = parts.slice(1);
-
-  switch (cmd) {
-    case "help":
-      return {
-        success: true,
-        message: `Available commands:\n  help — show this list\n  list — list all features\n  enable <id> — enable feature\n  disable <id> — disable feature\n  add <name> | <desc> | <category> — add feature\n  remove <id> — remove feature\n  status — system status\n  clear-logs — clear command logs\n  clear-gps — clear GPS logs\n  sync-email — queue data for email sync\n  version — app version`,
-      };
-
-    case "list":
-      if (features.length === 0) return { success: true, message: "No features registered." };
-      const featureList = features
-        .map(f => `  [${f.enabled ? "ON " : "OFF"}] ${f.id} — ${f.name} (${f.category})`)
-        .join("\n");
-      return { success: true, message: `Features (${features.length}):\n${featureList}` };
-
-    case "enable": {
-      const id = args[0];
-      if (!id) return { success: false, message: "Usage: enable <feature-id>" };
-      const f = features.find(x => x.id === id || x.name.toLowerCase() === args.join(" ").toLowerCase());
-      if (!f) return { success: false, message: `Feature not found: ${id}` };
-      if (f.enabled) return { success: true, message: `${f.name} is already enabled.` };
-      actions.toggleFeature(f.id);
-      return { success: true, message: `Enabled: ${f.name}` };
-    }
-
-    case "disable": {
-      const id = args[0];
-      if (!id) return { success: false, message: "Usage: disable <feature-id>" };
-      const f = features.find(x => x.id === id || x.name.toLowerCase() === args.join(" ").toLowerCase());
-      if (!f) return { success: false, message: `Feature not found: ${id}` };
-      if (!f.enabled) return { success: true, message: `${f.name} is already disabled.` };
-      actions.toggleFeature(f.id);
-      return { success: true, message: `Disabled: ${f.name}` };
-    }
-
-    case "add": {
-      const full = args.join(" ");
-      const splits = full.split("|").map(s => s.trim());
-      if (splits.length < 2) return { success: false, message: "Usage: add <name> | <description> | <category>" };
-      const [name, desc, cat = "Custom"] = splits;
-      if (!name || !desc) return { success: false, message: "Name and description are required." };
-      actions.addFeature(name, desc, cat);
-      return { success: true, message: `Feature added: ${name} [${cat}]` };
-    }
-
-    case "remove": {
-      const id = args[0];
-      if (!id) return { success: false, message: "Usage: remove <feature-id>" };
-      const f = features.find(x => x.id === id);
-      if (!f) return { success: false, message: `Feature not found: ${id}` };
-      actions.removeFeature(f.id);
-      return { success: true, message: `Removed: ${f.name}` };
-    }
-
-    case "status": {
-      const enabled = features.filter(f => f.enabled).length;
-      return {
-        success: true,
-        message: `System Status:\n  Features: ${enabled}/${features.length} active\n  Email: ${actions.emailAddress || "not configured"}\n  Platform: ${Platform.OS}\n  Version: 1.0.0`,
-      };
-    }
-
-    case "clear-logs":
-      actions.clearCommandLogs();
-      return { success: true, message: "Command logs cleared." };
-
-    case "clear-gps":
-      actions.clearGPSLogs();
-      return { success: true, message: "GPS logs cleared." };
-
-    case "sync-email": {
-      if (!actions.emailAddress) return { success: false, message: "No email configured. Set it in Settings first." };
-      actions.addEmailQueue(
-        "Rubel Engine Data Sync",
-        `Sync request at ${new Date().toLocaleString()}\nFeatures: ${features.filter(f => f.enabled).map(f => f.name).join(", ")}`
-      );
-      return { success: true, message: `Email queued for: ${actions.emailAddress}` };
-    }
-
-    case "version":
-      return { success: true, message: "Rubel Engine v1.0.0\nBuilt with Expo React Native\n100% offline-capable" };
-
-    case "":
-      return { success: false, message: "No command entered. Type 'help' for options." };
-
-    default:
-      return { success: false, message: `Unknown command: '${cmd}'. Type 'help' for available commands.` };
-  }
-}
+import { useAppCore, CommandLog } from "@/context/AppContext";
+import { useCommandLogs, useFeatures } from "@/context/stores";
+import { registry } from "@/lib/commands";
+import { complete, Completion } from "@/lib/completion";
+import { CommandSyntaxError, formatSyntaxError } from "@/lib/command-parser";
+import { expandHistory, useInputHistory } from "@/lib/history";
+import { useCommandContext } from "@/hooks/useCommandContext";
+import { usePagedLogs } from "@/hooks/usePagedLogs";
+import { CommandOutput } from "@/components/CommandOutput";
 
 interface LogEntryProps {
-  item: {
-    id: string;
-    command: string;
-    result: string;
-    type: "success" | "error" | "info";
-    timestamp: string;
-  };
+  item: CommandLog;
+  onFeaturePress: (id: string) => void;
 }
 
-function LogEntry({ item }: LogEntryProps) {
+function LogEntry({ item, onFeaturePress }: LogEntryProps) {
   const color = item.type === "success" ? Colors.success : item.type === "error" ? Colors.danger : Colors.textSecondary;
   const ts = new Date(item.timestamp).toLocaleTimeString();
 
+  // Long-press shares the plain-text form, whatever the entry renders as.
+  const share = () => {
+    Share.share({ message: `> ${item.command}\n${item.result}` }).catch(() => {});
+  };
+
   return (
-    <View style={styles.logEntry}>
+    <Pressable style={styles.logEntry} onLongPress={share} delayLongPress={400}>
       <View style={styles.logCommand}>
         <Text style={styles.logPrompt}>{">"}</Text>
         <Text style={styles.logCommandText}>{item.command}</Text>
         <Text style={styles.logTime}>{ts}</Text>
       </View>
-      <Text style={[styles.logResult, { color }]}>{item.result}</Text>
-    </View>
+      {item.output ? (
+        <CommandOutput output={item.output} onFeaturePress={onFeaturePress} />
+      ) : (
+        <Text style={[styles.logResult, { color }]}>{item.result}</Text>
+      )}
+    </Pressable>
   );
 }
 
-const SUGGESTIONS = ["help", "list", "status", "enable ", "disable ", "add  |  | Custom", "sync-email", "clear-logs"];
-
 export default function CommandScreen() {
   const insets = useSafeAreaInsets();
-  const { features, commandLogs, toggleFeature, addFeature, removeFeature, clearCommandLogs, clearGPSLogs, addEmailQueue, addCommandLog, emailAddress } = useApp();
+  const commandLogs = useCommandLogs();
+  const { addCommandLog } = useAppCore();
+  const ctx = useCommandContext();
+  const logs = usePagedLogs("command", commandLogs);
+  const features = useFeatures();
+  const { scripts, profiles, aliases, variables, history } = ctx;
   const [input, setInput] = useState("");
   const inputRef = useRef<TextInput>(null);
   const shakeX = useSharedValue(0);
@@ -168,28 +75,78 @@ export default function CommandScreen() {
 
   const shakeStyle = useAnimatedStyle(() => ({ transform: [{ translateX: shakeX.value }] }));
 
+  const recall = useInputHistory(history, input, setInput);
+
+  const signalError = () => {
+    shakeX.value = withSequence(
+      withTiming(-8, { duration: 60 }),
+      withTiming(8, { duration: 60 }),
+      withTiming(-4, { duration: 60 }),
+      withTiming(0, { duration: 60 })
+    );
+    haptics.notify(Haptics.NotificationFeedbackType.Error);
+  };
+
   const runCommand = () => {
+    if (recall.search) {
+      recall.acceptSearch();
+      return;
+    }
     const trimmed = input.trim();
     if (!trimmed) return;
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    const result = processCommand(trimmed, features, {
-      toggleFeature, addFeature, removeFeature, clearCommandLogs, clearGPSLogs, addEmailQueue, emailAddress
-    });
-    addCommandLog(trimmed, result.message, result.success ? "success" : "error");
-    if (!result.success) {
-      shakeX.value = withSequence(
-        withTiming(-8, { duration: 60 }),
-        withTiming(8, { duration: 60 }),
-        withTiming(-4, { duration: 60 }),
-        withTiming(0, { duration: 60 })
-      );
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-    }
+    haptics.impact(Haptics.ImpactFeedbackStyle.Light);
+    recall.reset();
     setInput("");
+
+    let line: string;
+    try {
+      line = expandHistory(trimmed, history);
+    } catch (e) {
+      if (!(e instanceof CommandSyntaxError)) throw e;
+      addCommandLog(trimmed, formatSyntaxError(trimmed, e), "error");
+      signalError();
+      return;
+    }
+
+    const result = registry.execute(line, ctx);
+    addCommandLog(line, result.message, result.success ? "success" : "error", { output: result.output });
+    if (!result.success) signalError();
   };
 
-  const applySuggestion = (s: string) => {
-    setInput(s);
+  const handleKeyPress = (e: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+    // Hardware keyboards on web report modifier state on the native event.
+    const { key, ctrlKey } = e.nativeEvent as TextInputKeyPressEventData & { ctrlKey?: boolean };
+    if (ctrlKey && key.toLowerCase() === "r") {
+      e.preventDefault();
+      recall.startSearch();
+    } else if (key === "Escape" && recall.search) {
+      recall.cancelSearch();
+    } else if (key === "ArrowUp" && !recall.search) {
+      e.preventDefault();
+      recall.previous();
+    } else if (key === "ArrowDown" && !recall.search) {
+      e.preventDefault();
+      recall.next();
+    }
+  };
+
+  const completions = useMemo(
+    () => (recall.search ? [] : complete(input, { features, scripts, profiles, aliases, variables })),
+    [input, features, scripts, profiles, aliases, variables, recall.search]
+  );
+
+  const applyCompletion = (c: Completion) => {
+    setInput(c.input);
+    inputRef.current?.focus();
+  };
+
+  /** Appends a tapped feature id to the input, or starts a toggle command for it when the input is empty. */
+  const insertFeature = (id: string) => {
+    const feature = features.find(f => f.id === id);
+    setInput(prev => {
+      if (prev.trim()) return `${prev.replace(/\s*$/, " ")}${id} `;
+      return feature ? `${feature.enabled ? "disable" : "enable"} ${id}` : `${id} `;
+    });
     inputRef.current?.focus();
   };
 
@@ -206,31 +163,18 @@ export default function CommandScreen() {
           <Text style={styles.headerTitle}>COMMAND CENTER</Text>
         </View>
         <View style={[styles.badge, { backgroundColor: Colors.accent + "20" }]}>
-          <Text style={[styles.badgeText, { color: Colors.accent }]}>{commandLogs.length} logs</Text>
+          <Text style={[styles.badgeText, { color: Colors.accent }]}>{logs.total} logs</Text>
         </View>
       </View>
 
-      {/* Suggestions */}
-      <FlatList
-        horizontal
-        data={SUGGESTIONS}
-        keyExtractor={(s, i) => i.toString()}
-        showsHorizontalScrollIndicator={false}
-        style={styles.suggestionList}
-        contentContainerStyle={{ gap: 8, paddingHorizontal: 16 }}
-        renderItem={({ item }) => (
-          <Pressable onPress={() => applySuggestion(item)} style={styles.suggChip}>
-            <Text style={styles.suggText}>{item}</Text>
-          </Pressable>
-        )}
-      />
-
       {/* Log List */}
       <FlatList
-        data={commandLogs}
+        data={logs.items}
         keyExtractor={item => item.id}
         inverted
-        scrollEnabled={!!commandLogs.length}
+        scrollEnabled={!!logs.items.length}
+        onEndReached={logs.loadMore}
+        onEndReachedThreshold={0.5}
         style={styles.logList}
         contentContainerStyle={{ padding: 16, gap: 8 }}
         ListEmptyComponent={
@@ -240,26 +184,68 @@ export default function CommandScreen() {
             <Text style={styles.emptyLogSub}>Try 'help' to get started</Text>
           </View>
         }
-        renderItem={({ item }) => <LogEntry item={item} />}
+        renderItem={({ item }) => <LogEntry item={item} onFeaturePress={insertFeature} />}
       />
 
       {/* Input */}
       <Animated.View style={[styles.inputBar, shakeStyle, { paddingBottom: bottomPad + 16 }]}>
+        {/* Completions */}
+        {completions.length > 0 && (
+          <FlatList
+            horizontal
+            data={completions}
+            keyExtractor={c => c.input}
+            keyboardShouldPersistTaps="always"
+            showsHorizontalScrollIndicator={false}
+            style={styles.suggestionList}
+            contentContainerStyle={{ gap: 8 }}
+            renderItem={({ item }) => (
+              <Pressable onPress={() => applyCompletion(item)} style={styles.suggChip}>
+                <Text style={styles.suggText}>{item.label}</Text>
+                {item.detail ? <Text style={styles.suggDetail} numberOfLines={1}>{item.detail}</Text> : null}
+              </Pressable>
+            )}
+          />
+        )}
+        {recall.search && (
+          <View style={styles.searchRow}>
+            <Text style={styles.searchLabel}>REVERSE SEARCH</Text>
+            <Text style={styles.searchMatch} numberOfLines={1}>
+              {recall.searchMatch ?? (recall.search.query ? "no match" : "type to search history")}
+            </Text>
+            <Pressable onPress={recall.cancelSearch} hitSlop={8}>
+              <Ionicons name="close" size={16} color={Colors.textDim} />
+            </Pressable>
+          </View>
+        )}
         <View style={styles.inputRow}>
-          <Text style={styles.prompt}>{">"}</Text>
+          <Text style={styles.prompt}>{recall.search ? "?" : ">"}</Text>
           <TextInput
             ref={inputRef}
             style={styles.input}
-            value={input}
-            onChangeText={setInput}
+            value={recall.search ? recall.search.query : input}
+            onChangeText={recall.search ? recall.setSearchQuery : setInput}
             onSubmitEditing={runCommand}
-            placeholder="enter command..."
+            onKeyPress={handleKeyPress}
+            blurOnSubmit={false}
+            placeholder={recall.search ? "search history..." : "enter command..."}
             placeholderTextColor={Colors.textDim}
             returnKeyType="send"
             autoCapitalize="none"
             autoCorrect={false}
             spellCheck={false}
           />
+          <View style={styles.historyBtns}>
+            <Pressable onPress={recall.previous} hitSlop={4} style={styles.historyBtn}>
+              <Ionicons name="chevron-up" size={16} color={Colors.textSecondary} />
+            </Pressable>
+            <Pressable onPress={recall.next} hitSlop={4} style={styles.historyBtn}>
+              <Ionicons name="chevron-down" size={16} color={Colors.textSecondary} />
+            </Pressable>
+          </View>
+          <Pressable onPress={recall.startSearch} style={styles.historyBtn}>
+            <Ionicons name="search" size={18} color={recall.search ? Colors.accent : Colors.textSecondary} />
+          </Pressable>
           <Pressable
             onPress={runCommand}
             style={({ pressed }) => [styles.sendBtn, { opacity: pressed ? 0.7 : 1 }]}
@@ -310,10 +296,13 @@ const styles = StyleSheet.create({
   },
   suggestionList: {
     maxHeight: 40,
-    marginBottom: 4,
+    marginBottom: 8,
   },
   suggChip: {
-    backgroundColor: Colors.bgCard,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.bgElevated,
     borderWidth: 1,
     borderColor: Colors.bgBorder,
     borderRadius: 8,
@@ -326,6 +315,12 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     letterSpacing: 0.5,
   },
+  suggDetail: {
+    fontFamily: "Rajdhani_400Regular",
+    fontSize: 11,
+    color: Colors.textDim,
+    maxWidth: 140,
+  },
   logList: {
     flex: 1,
     backgroundColor: Colors.bgCard,
@@ -413,4 +408,28 @@ const styles = StyleSheet.create({
   sendBtn: {
     padding: 4,
   },
+  historyBtns: {
+    gap: 2,
+  },
+  historyBtn: {
+    padding: 2,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+  },
+  searchLabel: {
+    fontFamily: "Rajdhani_700Bold",
+    fontSize: 10,
+    letterSpacing: 1.5,
+    color: Colors.accent,
+  },
+  searchMatch: {
+    flex: 1,
+    fontFamily: "Rajdhani_500Medium",
+    fontSize: 13,
+    color: Colors.textPrimary,
+  },
 });
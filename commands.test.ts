@@ -0,0 +1,66 @@
+import { registry, parseArgs } from "@/lib/commands";
+import { tokenize } from "@/lib/command-parser";
+import { makeContext, makeFeature } from "@/lib/test-utils";
+import "@/lib/builtin-commands";
+import "@/lib/filters";
+
+const features = [
+  makeFeature("01HZ0000000000000000000001", { name: "GPS Tracking", category: "Sensors", enabled: true }),
+  makeFeature("01HZ0000000000000000000002", { name: "Camera Capture", category: "Sensors" }),
+  makeFeature("01HZ0000000000000000000003", { name: "Dark Mode", category: "UI", enabled: true }),
+];
+
+describe("registry.execute", () => {
+  it("expands aliases and variables before parsing", () => {
+    const ctx = makeContext({ features, aliases: { sensors: "list | grep" }, variables: { cat: "Sensors" } });
+    expect(registry.execute("sensors $cat | count", ctx).message).toBe("2");
+  });
+
+  it("reports syntax errors against the input", () => {
+    const result = registry.execute('add "Night Vision', makeContext());
+    expect(result).toEqual({ success: false, message: 'Unterminated double quote\n  add »"Night Vision« (col 5)' });
+  });
+
+  it("binds options and rejects unknown ones", () => {
+    const ctx = makeContext({ features });
+    expect(registry.execute("list | sort name --desc | head 1", ctx).data?.[0].name).toBe("GPS Tracking");
+    expect(registry.execute("list --all", ctx).message).toMatch(/^Unknown option --all for 'list'/);
+  });
+});
+
+describe("parseArgs", () => {
+  const spec = {
+    name: "demo",
+    args: [{ name: "feature", type: "feature" as const }, { name: "count", type: "number" as const }, { name: "rest", rest: true, optional: true }],
+    options: [{ name: "every", type: "duration" as const }, { name: "force", type: "boolean" as const }],
+    summary: "",
+  };
+  const parse = (input: string) => parseArgs(spec, tokenize(input), makeContext({ features }), input, input.length);
+
+  it("converts each value to its declared type", () => {
+    expect(parse('"dark mode" 3 --every 5m --force one two')).toEqual({ feature: features[2], count: 3, every: 300_000, force: true, rest: "one two" });
+  });
+
+  it("leaves omitted values out", () => {
+    expect(parse("01HZ0000000000000000000001 1")).toEqual({ feature: features[0], count: 1 });
+  });
+
+  it("takes option values after '=' or as the next token, and nothing after '--' as an option", () => {
+    expect(parse("gps\\ tracking 1 --every=1m")).toMatchObject({ every: 60_000 });
+    expect(parse("gps\\ tracking 1 -- --force")).toMatchObject({ rest: "--force" });
+    expect(parse('gps\\ tracking 1 "--force"')).toMatchObject({ rest: "--force" });
+  });
+
+  it("leaves options after the start of a raw rest argument to that text", () => {
+    const raw = { name: "later", args: [{ name: "command", rest: true, raw: true }], options: spec.options, summary: "" };
+    const input = "--force disable gps --cascade";
+    expect(parseArgs(raw, tokenize(input), makeContext(), input, input.length)).toEqual({ force: true, command: "disable gps --cascade" });
+  });
+
+  it("points at the value that does not fit its type", () => {
+    expect(() => parse("gps\\ tracking two")).toThrow(expect.objectContaining({ message: "Expected a number for count, got 'two'", start: 14, end: 17 }));
+    expect(() => parse("gps\\ tracking 1 --every soon")).toThrow("Invalid duration 'soon' (try 30s, 5m, 1h30m, 2d)");
+    expect(() => parse("gps\\ tracking 1 --force=yes")).toThrow("Option --force does not take a value");
+    expect(() => parse("gps\\ tracking")).toThrow("Missing argument <count>. Usage: demo <feature> <count> [rest...] [--every <duration>] [--force]");
+  });
+});
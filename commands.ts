@@ -0,0 +1,459 @@
+import type { Feature, FeatureLinks, ConfigValue, FeatureProfile, AuditEntry, GPSLog, CommandLog, Script, Schedule, UndoEntry, NetworkEvent } from "@/context/AppContext";
+import type { FeaturePlan, RemovalPlan } from "@/lib/features";
+import type { ProfilePlan } from "@/lib/profiles";
+import type { ImportPlan } from "@/lib/manifest";
+import {
+  tokenize,
+  splitPipeline,
+  formatSyntaxError,
+  parseDuration,
+  formatDuration,
+  CommandSyntaxError,
+  Token,
+} from "@/lib/command-parser";
+import { expandAliases, expandVariables } from "@/lib/expansion";
+import { matchId } from "@/lib/ids";
+import type { BackupFile, RestoreOptions, RestorePlan } from "@/lib/backup";
+
+export type Value = string | number | boolean;
+
+export type Row = Record<string, Value>;
+
+/** `feature` values are tappable ids; `time` values are ISO timestamps shown in local time. */
+export type ValueType = "text" | "number" | "boolean" | "feature" | "time";
+
+export interface Column {
+  key: string;
+  label?: string;
+  type?: ValueType;
+}
+
+/**
+ * Structured payload the Command Center renders instead of `message`. Kept
+ * to plain JSON so it can be stored with the command log.
+ */
+export type Output =
+  | { kind: "table"; columns: Column[]; rows: Row[] }
+  | { kind: "keyValue"; entries: { key: string; value: Value; type?: ValueType }[] }
+  | { kind: "coordinates"; rows: Row[] }
+  | { kind: "json"; value: unknown };
+
+export type CommandResult = {
+  success: boolean;
+  /** Plain-text result, used for export and whenever there is no `output`. */
+  message: string;
+  output?: Output;
+  /** Structured rows that filters after a `|` operate on. */
+  data?: Row[];
+  /** Renders one row as a line of text; defaults to the row's values joined by two spaces. */
+  format?: (row: Row) => string;
+};
+
+export interface CommandActions {
+  setFeatureEnabled: (id: string, enabled: boolean, cascade?: boolean) => FeaturePlan;
+  setFeatureConfig: (id: string, key: string, value: ConfigValue | null) => void;
+  addFeature: (name: string, desc: string, cat: string, links?: FeatureLinks) => void;
+  removeFeature: (id: string, cascade?: boolean) => RemovalPlan;
+  importFeatures: (plan: ImportPlan) => void;
+  clearCommandLogs: () => void;
+  clearGPSLogs: () => void;
+  addEmailQueue: (sub: string, body: string) => void;
+  addCommandLog: (command: string, result: string, type: CommandLog["type"], extra?: Pick<CommandLog, "source" | "output">) => void;
+  saveScript: (name: string, steps: string[]) => void;
+  deleteScript: (name: string) => void;
+  saveProfile: (name: string) => FeatureProfile;
+  applyProfile: (id: string) => ProfilePlan;
+  deleteProfile: (id: string) => void;
+  undo: () => UndoEntry | null;
+  redo: () => UndoEntry | null;
+  addSchedule: (spec: string, command: string, nextRunAt: string) => Schedule;
+  removeSchedule: (id: string) => void;
+  setAlias: (name: string, value: string) => void;
+  removeAlias: (name: string) => void;
+  setVariable: (name: string, value: string) => void;
+  removeVariable: (name: string) => void;
+  backUp: () => Promise<BackupFile>;
+  previewRestore: (uri: string, options: RestoreOptions) => Promise<RestorePlan>;
+  restoreBackup: (plan: RestorePlan) => Promise<void>;
+}
+
+export interface CommandContext {
+  /** Read when accessed, so each step of a script sees what the steps before it changed. */
+  features: Feature[];
+  gpsLogs: GPSLog[];
+  scripts: Script[];
+  schedules: Schedule[];
+  profiles: FeatureProfile[];
+  activeProfile: string | null;
+  aliases: Record<string, string>;
+  variables: Record<string, string>;
+  /** Inputs typed into the Command Center, oldest first. */
+  history: string[];
+  emailAddress: string;
+  isOnline: boolean;
+  /** Connectivity changes, newest first. */
+  networkEvents: NetworkEvent[];
+  /** Feature changes, newest first. */
+  featureAudit: AuditEntry[];
+  actions: CommandActions;
+}
+
+/**
+ * `category` and `command` are plain strings; they only tell autocomplete
+ * which values to offer.
+ */
+export type ArgType = "string" | "number" | "feature" | "duration" | "script" | "profile" | "category" | "command";
+
+export interface ArgSpec {
+  name: string;
+  type?: ArgType;
+  optional?: boolean;
+  /** Consumes every remaining positional token, joined with single spaces. */
+  rest?: boolean;
+  /**
+   * With `rest`, keeps the source text of the consumed tokens (quotes and
+   * escapes included) instead of joining their values. A single quoted token
+   * is still unwrapped.
+   */
+  raw?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface OptionSpec {
+  name: string;
+  type?: ArgType | "boolean";
+  summary?: string;
+}
+
+/**
+ * A converted argument or option value: numbers, durations in milliseconds,
+ * `true` for boolean options, features as `Feature`, scripts as `Script` and
+ * profiles as `FeatureProfile`; anything else is the text as typed.
+ */
+export type ArgValue = string | number | boolean | string[] | Feature | Script | FeatureProfile;
+
+/**
+ * Arguments and options bound to their declared names. Handlers narrow each
+ * value to what its spec declares; omitted ones are `undefined`.
+ */
+export type ParsedArgs = Record<string, ArgValue | undefined>;
+
+interface BaseSpec {
+  name: string;
+  aliases?: string[];
+  args?: ArgSpec[];
+  options?: OptionSpec[];
+  summary: string;
+  description?: string;
+}
+
+export interface CommandSpec extends BaseSpec {
+  /** May be omitted when the command only groups subcommands. */
+  handler?: (args: ParsedArgs, ctx: CommandContext) => CommandResult;
+  subcommands?: CommandSpec[];
+}
+
+/** A pipeline stage that transforms the rows produced by the stage before it. */
+export interface FilterSpec extends BaseSpec {
+  apply: (input: CommandResult & { data: Row[] }, args: ParsedArgs) => CommandResult;
+}
+
+export function formatRow(row: Row): string {
+  return Object.values(row).join("  ");
+}
+
+/** Re-renders `message` and any row-based `output` from `data` after a filter has changed the rows. */
+export function renderRows(result: CommandResult & { data: Row[] }): CommandResult {
+  const format = result.format ?? formatRow;
+  const message = result.data.length ? result.data.map(format).join("\n") : "(no rows)";
+  const output = result.output && "rows" in result.output ? { ...result.output, rows: result.data } : undefined;
+  return { ...result, message, output };
+}
+
+/**
+ * For commands whose work takes a while, such as backups and restores: the
+ * outcome is logged as a second entry once done.
+ */
+export function logWhenDone(actions: CommandActions, command: string, work: Promise<CommandResult>): void {
+  work
+    .catch((e): CommandResult => ({ success: false, message: e instanceof Error ? e.message : String(e) }))
+    .then(result => actions.addCommandLog(command, result.message, result.success ? "success" : "error", { output: result.output }));
+}
+
+/** `parent` is the command path a subcommand is invoked under, e.g. `script`. */
+export function formatUsage(spec: BaseSpec, parent?: string): string {
+  const args = (spec.args ?? []).map(a => {
+    const label = a.rest ? `${a.name}...` : a.name;
+    return a.optional ? `[${label}]` : `<${label}>`;
+  });
+  const options = (spec.options ?? []).map(o => (o.type === "boolean" ? `[--${o.name}]` : `[--${o.name} <${o.type ?? "value"}>]`));
+  const subcommands = (spec as CommandSpec).subcommands;
+  if (subcommands?.length) args.unshift(`<${subcommands.map(c => c.name).join("|")}>`);
+  return [parent ? `${parent} ${spec.name}` : spec.name, ...args, ...options].join(" ");
+}
+
+function convertValue(type: ArgType, text: string, span: Pick<Token, "start" | "end">, spec: ArgSpec | OptionSpec, ctx: CommandContext): ArgValue {
+  switch (type) {
+    case "number": {
+      if (!/^-?\d+(\.\d+)?$/.test(text)) throw CommandSyntaxError.at(`Expected a number for ${spec.name}, got '${text}'`, span);
+      const n = parseFloat(text);
+      const { min, max } = spec as ArgSpec;
+      if (min !== undefined && n < min) throw CommandSyntaxError.at(`${spec.name} must be at least ${min}`, span);
+      if (max !== undefined && n > max) throw CommandSyntaxError.at(`${spec.name} must be at most ${max}`, span);
+      return n;
+    }
+    case "duration": {
+      const ms = parseDuration(text);
+      if (ms === null) throw CommandSyntaxError.at(`Invalid duration '${text}' (try 30s, 5m, 1h30m, 2d)`, span);
+      const { min, max } = spec as ArgSpec;
+      if (min !== undefined && ms < min) throw CommandSyntaxError.at(`${spec.name} must be at least ${formatDuration(min)}`, span);
+      if (max !== undefined && ms > max) throw CommandSyntaxError.at(`${spec.name} must be at most ${formatDuration(max)}`, span);
+      return ms;
+    }
+    case "feature": {
+      const named = ctx.features.find(x => x.name.toLowerCase() === text.toLowerCase());
+      if (named) return named;
+      const matches = matchId(ctx.features, text);
+      if (matches.length > 1) throw CommandSyntaxError.at(`Ambiguous id '${text}' matches ${matches.length} features`, span);
+      if (!matches.length) throw CommandSyntaxError.at(`Feature not found: ${text}`, span);
+      return matches[0];
+    }
+    case "script": {
+      const script = ctx.scripts.find(x => x.name.toLowerCase() === text.toLowerCase());
+      if (!script) throw CommandSyntaxError.at(`Script not found: ${text}`, span);
+      return script;
+    }
+    case "profile": {
+      const profile = ctx.profiles.find(x => x.name.toLowerCase() === text.toLowerCase());
+      if (!profile) throw CommandSyntaxError.at(`Profile not found: ${text}`, span);
+      return profile;
+    }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Binds tokens that follow the command name to the spec's arguments and
+ * options. Options end at `--`, and at the first token of a raw rest
+ * argument: that text is another command line, so `schedule add --every 5m
+ * disable f001 --cascade` keeps `--cascade` for `disable`. `end` is the input
+ * offset where the stage ends, used to point at missing arguments.
+ */
+export function parseArgs(spec: BaseSpec, tokens: Token[], ctx: CommandContext, input: string, end: number): ParsedArgs {
+  const parsed: ParsedArgs = {};
+  const positional: Token[] = [];
+  const args = spec.args ?? [];
+  const rawRestAt = args.findIndex(a => a.rest && a.raw);
+  let optionsDone = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const tok = tokens[i];
+    if (optionsDone || tok.quoted || !tok.value.startsWith("--")) {
+      positional.push(tok);
+      if (rawRestAt !== -1 && positional.length > rawRestAt) optionsDone = true;
+      continue;
+    }
+    if (tok.value === "--") {
+      optionsDone = true;
+      continue;
+    }
+
+    const eq = tok.value.indexOf("=");
+    const name = tok.value.slice(2, eq === -1 ? undefined : eq);
+    const opt = spec.options?.find(o => o.name === name);
+    if (!opt) throw CommandSyntaxError.at(`Unknown option --${name} for '${spec.name}'`, tok);
+
+    if (opt.type === "boolean") {
+      if (eq !== -1) throw CommandSyntaxError.at(`Option --${name} does not take a value`, tok);
+      parsed[opt.name] = true;
+      continue;
+    }
+
+    let valueText: string;
+    let valueSpan: Pick<Token, "start" | "end">;
+    if (eq !== -1) {
+      valueText = tok.value.slice(eq + 1);
+      valueSpan = tok;
+    } else {
+      const next = tokens[i + 1];
+      if (!next) throw CommandSyntaxError.at(`Option --${name} expects a value`, tok);
+      valueText = next.value;
+      valueSpan = next;
+      i++;
+    }
+    parsed[opt.name] = convertValue(opt.type ?? "string", valueText, valueSpan, opt, ctx);
+  }
+
+  let pos = 0;
+  for (const arg of args) {
+    if (pos >= positional.length) {
+      if (!arg.optional) throw new CommandSyntaxError(`Missing argument <${arg.name}>. Usage: ${formatUsage(spec)}`, end, end);
+      continue;
+    }
+    if (arg.rest) {
+      const taken = positional.slice(pos);
+      const span = { start: taken[0].start, end: taken[taken.length - 1].end };
+      const text = arg.raw && !(taken.length === 1 && taken[0].quoted)
+        ? input.slice(span.start, span.end)
+        : taken.map(t => t.value).join(" ");
+      parsed[arg.name] = convertValue(arg.type ?? "string", text, span, arg, ctx);
+      pos = positional.length;
+    } else {
+      const tok = positional[pos++];
+      parsed[arg.name] = convertValue(arg.type ?? "string", tok.value, tok, arg, ctx);
+    }
+  }
+
+  if (pos < positional.length) {
+    throw CommandSyntaxError.at(`Unexpected argument '${positional[pos].value}'. Usage: ${formatUsage(spec)}`, positional[pos]);
+  }
+
+  return parsed;
+}
+
+export class CommandRegistry {
+  private commands: Map<string, CommandSpec>;
+  private filters: Map<string, FilterSpec>;
+  private aliases: Map<string, string>;
+
+  constructor() {
+    this.commands = new Map();
+    this.filters = new Map();
+    this.aliases = new Map();
+  }
+
+  private claimNames(spec: BaseSpec): void {
+    for (const name of [spec.name, ...(spec.aliases ?? [])]) {
+      if (this.commands.has(name) || this.filters.has(name) || this.aliases.has(name)) {
+        throw new Error(`Command already registered: ${name}`);
+      }
+    }
+    for (const alias of spec.aliases ?? []) this.aliases.set(alias, spec.name);
+  }
+
+  register(spec: CommandSpec): void {
+    this.claimNames(spec);
+    this.commands.set(spec.name, spec);
+  }
+
+  registerFilter(spec: FilterSpec): void {
+    this.claimNames(spec);
+    this.filters.set(spec.name, spec);
+  }
+
+  private resolve(name: string): string {
+    const key = name.toLowerCase();
+    return this.aliases.get(key) ?? key;
+  }
+
+  get(name: string): CommandSpec | undefined {
+    return this.commands.get(this.resolve(name));
+  }
+
+  /**
+   * Descends from a command into its subcommands for as long as the following
+   * words name one. `consumed` is how many words were used.
+   */
+  lookup(words: string[]): { spec: CommandSpec; parent?: string; consumed: number } | undefined {
+    let spec = words[0] ? this.get(words[0]) : undefined;
+    if (!spec) return undefined;
+    let parent: string | undefined;
+    let consumed = 1;
+    while (spec.subcommands && consumed < words.length) {
+      const word = words[consumed].toLowerCase();
+      const sub: CommandSpec | undefined = spec.subcommands.find(c => c.name === word || c.aliases?.includes(word));
+      if (!sub) break;
+      parent = parent ? `${parent} ${spec.name}` : spec.name;
+      spec = sub;
+      consumed++;
+    }
+    return { spec, parent, consumed };
+  }
+
+  getFilter(name: string): FilterSpec | undefined {
+    return this.filters.get(this.resolve(name));
+  }
+
+  list(): CommandSpec[] {
+    return Array.from(this.commands.values());
+  }
+
+  listFilters(): FilterSpec[] {
+    return Array.from(this.filters.values());
+  }
+
+  /**
+   * Runs one command line. Aliases and then `$variables` are expanded first;
+   * syntax errors are reported against the expanded text.
+   */
+  execute(line: string, ctx: CommandContext): CommandResult {
+    let input = line;
+    try {
+      input = expandAliases(input, ctx.aliases);
+      input = expandVariables(input, ctx.variables);
+      const stages = splitPipeline(tokenize(input));
+      if (stages.length === 0) return { success: false, message: "No command entered. Type 'help' for options." };
+
+      const stageEnd = (i: number) => stages[i][stages[i].length - 1].end;
+      const [head, ...filters] = stages;
+      const cmd = head[0].value.toLowerCase();
+      const found = this.lookup(head.map((t, i) => (t.quoted && i > 0 ? "" : t.value)));
+      if (!found) {
+        const hint = this.getFilter(cmd) ? `'${cmd}' is a filter; use it after '|'.` : "Type 'help' for available commands.";
+        throw CommandSyntaxError.at(`Unknown command: '${cmd}'. ${hint}`, head[0]);
+      }
+      const { spec, parent, consumed } = found;
+      if (!spec.handler) {
+        const usage = `Usage: ${formatUsage(spec, parent)}`;
+        const next = head[consumed];
+        if (next) throw CommandSyntaxError.at(`Unknown subcommand '${next.value}'. ${usage}`, next);
+        throw new CommandSyntaxError(`Missing subcommand. ${usage}`, stageEnd(0), stageEnd(0));
+      }
+
+      let result = spec.handler(parseArgs(spec, head.slice(consumed), ctx, input, stageEnd(0)), ctx);
+      for (let i = 0; i < filters.length; i++) {
+        if (!result.success) break;
+        const stage = filters[i];
+        const filter = this.getFilter(stage[0].value);
+        if (!filter) throw CommandSyntaxError.at(`Unknown filter: '${stage[0].value}'. Filters: ${this.listFilters().map(f => f.name).join(", ")}`, stage[0]);
+        const data = result.data;
+        if (!data) throw CommandSyntaxError.at(`'${stages[i][0].value}' produces no rows to filter`, stage[0]);
+        result = filter.apply({ ...result, data }, parseArgs(filter, stage.slice(1), ctx, input, stageEnd(i + 1)));
+      }
+      return result;
+    } catch (e) {
+      if (e instanceof CommandSyntaxError) return { success: false, message: formatSyntaxError(input, e) };
+      throw e;
+    }
+  }
+}
+
+export const registry = new CommandRegistry();
+
+registry.register({
+  name: "help",
+  aliases: ["?"],
+  args: [{ name: "command", type: "command", optional: true, rest: true }],
+  summary: "show this list, or details for one command",
+  handler: ({ command }) => {
+    if (command) {
+      const words = String(command).split(" ");
+      const found = registry.lookup(words);
+      const spec = found?.spec ?? registry.getFilter(words[0]);
+      if (!spec) return { success: false, message: `Unknown command: '${command}'. Type 'help' for available commands.` };
+      const lines = [`Usage: ${formatUsage(spec, found?.parent)}`, `  ${spec.description ?? spec.summary}`];
+      const prefix = found ? [found.parent, found.spec.name].filter(Boolean).join(" ") : "";
+      for (const sub of found?.spec.subcommands ?? []) lines.push(`  ${formatUsage(sub, prefix)} — ${sub.summary}`);
+      for (const a of spec.args ?? []) lines.push(`  <${a.name}> ${a.type ?? "string"}${a.optional ? ", optional" : ""}`);
+      for (const o of spec.options ?? []) lines.push(`  --${o.name} ${o.type ?? "string"}${o.summary ? ` — ${o.summary}` : ""}`);
+      if (spec.aliases?.length) lines.push(`  Aliases: ${spec.aliases.join(", ")}`);
+      return { success: true, message: lines.join("\n") };
+    }
+    const lines = registry.list().map(c => `  ${formatUsage(c)} — ${c.summary}`);
+    const filters = registry.listFilters().map(f => `  ${formatUsage(f)} — ${f.summary}`);
+    const message = `Available commands:\n${lines.join("\n")}` + (filters.length ? `\nFilters (after |):\n${filters.join("\n")}` : "");
+    return { success: true, message };
+  },
+});
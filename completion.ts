@@ -0,0 +1,189 @@
+import { registry, CommandContext, ArgSpec, OptionSpec, CommandSpec, FilterSpec } from "@/lib/commands";
+import { tokenize, CommandSyntaxError, Token } from "@/lib/command-parser";
+import { shortIds } from "@/lib/ids";
+
+export interface Completion {
+  /** Text shown on the chip. */
+  label: string;
+  detail?: string;
+  /** The whole input line after accepting this completion. */
+  input: string;
+}
+
+interface Candidate {
+  value: string;
+  detail?: string;
+  /** Strings the query is matched against; defaults to `value`. */
+  keys?: string[];
+}
+
+export type CompletionContext = Pick<CommandContext, "features" | "scripts" | "profiles" | "aliases" | "variables">;
+
+const MAX_COMPLETIONS = 12;
+
+/**
+ * Scores how well `query` matches `text`: prefix matches beat substring
+ * matches, which beat in-order subsequence matches. Returns 0 for no match.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 1;
+  if (t === q) return 1000;
+  if (t.startsWith(q)) return 800 - t.length;
+  const at = t.indexOf(q);
+  if (at !== -1) return 600 - at - t.length;
+
+  let score = 400;
+  let pos = 0;
+  for (const ch of q) {
+    const found = t.indexOf(ch, pos);
+    if (found === -1) return 0;
+    score -= found - pos;
+    pos = found + 1;
+  }
+  return Math.max(score - t.length, 1);
+}
+
+/** Tokenizes input that may end inside an open quote, closing it for completion purposes. */
+function tokenizePartial(input: string): { tokens: Token[]; open: boolean } | null {
+  try {
+    return { tokens: tokenize(input), open: false };
+  } catch (e) {
+    if (!(e instanceof CommandSyntaxError)) throw e;
+    for (const quote of ['"', "'"]) {
+      try {
+        return { tokens: tokenize(input + quote), open: true };
+      } catch (_) {}
+    }
+    return null;
+  }
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s"'|\\]/.test(value) ? `"${value.replace(/["\\]/g, "\\$&")}"` : value;
+}
+
+function valueCandidates(type: ArgSpec["type"] | OptionSpec["type"], ctx: CompletionContext): Candidate[] {
+  switch (type) {
+    case "feature": {
+      const short = shortIds(ctx.features.map(f => f.id));
+      return ctx.features.map(f => ({ value: short.get(f.id)!, detail: f.name, keys: [f.id, f.name] }));
+    }
+    case "script":
+      return ctx.scripts.map(s => ({ value: s.name, detail: `${s.steps.length} steps` }));
+    case "profile":
+      return ctx.profiles.map(p => ({ value: p.name, detail: `${p.features.filter(f => f.enabled).length} on` }));
+    case "category":
+      return Array.from(new Set(ctx.features.map(f => f.category))).map(c => ({ value: c }));
+    case "command":
+      return registry.list().map(c => ({ value: c.name, detail: c.summary }));
+    default:
+      return [];
+  }
+}
+
+function rank(candidates: Candidate[], query: string): Candidate[] {
+  return candidates
+    .map(c => ({ c, score: Math.max(...(c.keys ?? [c.value]).map(k => fuzzyScore(query, k))) }))
+    .filter(x => x.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_COMPLETIONS)
+    .map(x => x.c);
+}
+
+/**
+ * Completions for the word under the cursor (the end of the input): command
+ * and filter names, aliases, subcommands, options, `$variables`, and argument
+ * values taken from the current features, categories and scripts.
+ */
+export function complete(input: string, ctx: CompletionContext): Completion[] {
+  const partial = tokenizePartial(input);
+  if (!partial) return [];
+  const { tokens, open } = partial;
+
+  const atBoundary = !open && (input.length === 0 || /[\s|]$/.test(input));
+  const current: Token = atBoundary
+    ? { value: "", start: input.length, end: input.length, quoted: false }
+    : tokens[tokens.length - 1];
+  const before = atBoundary ? tokens : tokens.slice(0, -1);
+
+  const lastPipe = before.map(t => !!t.pipe).lastIndexOf(true);
+  const stage = before.slice(lastPipe + 1);
+  const inFilter = lastPipe !== -1;
+
+  let replaceFrom = current.start;
+  let query = current.value;
+  let candidates: Candidate[];
+  let addSpace = true;
+
+  if (current.value.startsWith("$") && !current.quoted) {
+    candidates = Object.keys(ctx.variables).map(name => ({ value: `$${name}`, detail: ctx.variables[name] }));
+  } else if (stage.length === 0) {
+    const specs: (CommandSpec | FilterSpec)[] = inFilter ? registry.listFilters() : registry.list();
+    candidates = specs.map(s => ({ value: s.name, detail: s.summary, keys: [s.name, ...(s.aliases ?? [])] }));
+    if (!inFilter) {
+      candidates.push(...Object.keys(ctx.aliases).map(name => ({ value: name, detail: `alias: ${ctx.aliases[name]}` })));
+    }
+  } else {
+    const found = inFilter
+      ? (() => {
+          const filter = registry.getFilter(stage[0].value);
+          return filter ? { spec: filter as CommandSpec | FilterSpec, consumed: 1 } : undefined;
+        })()
+      : registry.lookup(stage.map((t, i) => (t.quoted && i > 0 ? "" : t.value)));
+    if (!found) return [];
+    const { spec, consumed } = found;
+    const rest = stage.slice(consumed);
+    const subcommands = (spec as CommandSpec).subcommands;
+
+    if (subcommands && rest.length === 0) {
+      candidates = subcommands.map(s => ({ value: s.name, detail: s.summary, keys: [s.name, ...(s.aliases ?? [])] }));
+    } else if (current.value.startsWith("-") && !current.quoted) {
+      const used = new Set(rest.map(t => t.value.replace(/^--/, "").split("=")[0]));
+      candidates = (spec.options ?? [])
+        .filter(o => !used.has(o.name))
+        .map(o => ({ value: `--${o.name}`, detail: o.summary }));
+    } else {
+      const prev = rest[rest.length - 1];
+      const prevOption = prev && !prev.quoted && prev.value.startsWith("--") && !prev.value.includes("=")
+        ? spec.options?.find(o => o.name === prev.value.slice(2))
+        : undefined;
+
+      if (prevOption && prevOption.type !== "boolean") {
+        candidates = valueCandidates(prevOption.type, ctx);
+      } else {
+        const positional: Token[] = [];
+        for (let i = 0; i < rest.length; i++) {
+          const tok = rest[i];
+          if (!tok.quoted && tok.value.startsWith("--")) {
+            const opt = spec.options?.find(o => o.name === tok.value.slice(2));
+            if (opt && opt.type !== "boolean" && !tok.value.includes("=")) i++;
+            continue;
+          }
+          positional.push(tok);
+        }
+        const args = spec.args ?? [];
+        const restIndex = args.findIndex(a => a.rest);
+        const index = restIndex !== -1 ? Math.min(positional.length, restIndex) : positional.length;
+        const arg = args[index];
+        if (!arg) return [];
+
+        if (arg.rest && arg.type === "feature" && positional.length > index) {
+          replaceFrom = positional[index].start;
+          query = input.slice(replaceFrom);
+          addSpace = false;
+        }
+        candidates = valueCandidates(arg.type, ctx);
+      }
+    }
+  }
+
+  const head = input.slice(0, replaceFrom);
+  const separator = head && !/\s$/.test(head) ? " " : "";
+  return rank(candidates, query).map(c => ({
+    label: c.value,
+    detail: c.detail,
+    input: `${head}${separator}${quoteIfNeeded(c.value)}${addSpace ? " " : ""}`,
+  }));
+}
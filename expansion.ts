@@ -0,0 +1,72 @@
+import { tokenize, CommandSyntaxError } from "@/lib/command-parser";
+
+export const ALIAS_NAME = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+export const VARIABLE_NAME = /^[A-Za-z_]\w*$/;
+
+const MAX_ALIAS_DEPTH = 10;
+
+/**
+ * Replaces an alias used as the first word of any pipeline stage with its
+ * definition. Definitions are expanded recursively, but an alias is never
+ * expanded inside its own definition.
+ */
+export function expandAliases(input: string, aliases: Record<string, string>, seen: string[] = []): string {
+  if (Object.keys(aliases).length === 0) return input;
+  if (seen.length > MAX_ALIAS_DEPTH) throw new CommandSyntaxError(`Alias nesting too deep: ${seen.join(" → ")}`, 0, input.length);
+
+  const tokens = tokenize(input);
+  let out = input;
+  // Replace from the end so earlier offsets stay valid.
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const tok = tokens[i];
+    const startsStage = i === 0 || tokens[i - 1].pipe;
+    if (!startsStage || tok.quoted || tok.pipe) continue;
+    const definition = aliases[tok.value];
+    if (definition === undefined || seen.includes(tok.value)) continue;
+    const expanded = expandAliases(definition, aliases, [...seen, tok.value]);
+    out = out.slice(0, tok.start) + expanded + out.slice(tok.end);
+  }
+  return out;
+}
+
+function quoteValue(value: string, inDoubleQuotes: boolean): string {
+  if (inDoubleQuotes) return value.replace(/["\\]/g, "\\$&");
+  return /^[^\s"'|\\$]+$/.test(value) ? value : `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Substitutes `$name` and `${name}` outside single quotes. Each value stays a
+ * single word: it is quoted as needed, so `set target="GPS Tracking"` then
+ * `enable $target` enables one feature. `\$` is a literal dollar sign.
+ */
+export function expandVariables(input: string, variables: Record<string, string>): string {
+  let out = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === "\\" && quote !== "'" && i + 1 < input.length) {
+      out += ch + input[++i];
+      continue;
+    }
+    if (ch !== "$" || quote === "'") {
+      if (quote === null && (ch === "'" || ch === '"')) quote = ch;
+      else if (ch === quote) quote = null;
+      out += ch;
+      continue;
+    }
+
+    const m = /^\$(?:\{([A-Za-z_]\w*)\}|([A-Za-z_]\w*))/.exec(input.slice(i));
+    if (!m) {
+      out += ch;
+      continue;
+    }
+    const name = m[1] ?? m[2];
+    const value = variables[name];
+    if (value === undefined) throw new CommandSyntaxError(`Undefined variable: ${name}`, i, i + m[0].length);
+    out += quoteValue(value, quote === '"');
+    i += m[0].length - 1;
+  }
+
+  return out;
+}
@@ -0,0 +1,83 @@
+import { planFeatureChange, planFeatureRemoval, describePlan, describeRemoval, ruleViolations } from "@/lib/features";
+import { makeFeature } from "@/lib/test-utils";
+
+const ids = (plan: { changes: { feature: { id: string }; enabled: boolean }[] }) => plan.changes.map(c => `${c.enabled ? "+" : "-"}${c.feature.id}`);
+
+describe("planFeatureChange", () => {
+  const gps = makeFeature("gps", { name: "GPS" });
+  const log = makeFeature("log", { name: "Auto Log", requires: ["gps"] });
+  const upload = makeFeature("upload", { name: "Upload", requires: ["log"] });
+  const saver = makeFeature("saver", { name: "Power Saver", enabled: true, conflictsWith: ["gps"] });
+
+  it("turns on what a feature requires, transitively", () => {
+    expect(ids(planFeatureChange([gps, log, upload], "upload", true))).toEqual(["+upload", "+log", "+gps"]);
+  });
+
+  it("turns off what conflicts with a feature being turned on, in either direction", () => {
+    const plan = planFeatureChange([gps, log, saver], "log", true);
+    expect(ids(plan)).toEqual(["+log", "+gps", "-saver"]);
+    expect(describePlan(plan)).toBe("Enable Auto Log\nEnable GPS (required by Auto Log)\nDisable Power Saver (conflicts with GPS)");
+  });
+
+  it("turns off what requires a feature being turned off", () => {
+    const on = [gps, log, upload].map(f => ({ ...f, enabled: true }));
+    expect(ids(planFeatureChange(on, "gps", false))).toEqual(["-gps", "-log", "-upload"]);
+  });
+
+  it("changes nothing for a feature already in the requested state", () => {
+    expect(planFeatureChange([gps], "gps", false)).toEqual({ changes: [] });
+  });
+
+  it("is blocked when a feature would have to be both on and off", () => {
+    const a = makeFeature("a", { name: "A", requires: ["b", "c"] });
+    const b = makeFeature("b", { name: "B" });
+    const c = makeFeature("c", { name: "C", conflictsWith: ["b"] });
+    expect(planFeatureChange([a, b, c], "a", true)).toEqual({
+      changes: [],
+      blocked: "B would have to be turned off (conflicts with C) and on (required by A).",
+    });
+  });
+
+  it("is blocked by a missing requirement or feature", () => {
+    expect(planFeatureChange([log], "log", true).blocked).toBe("Auto Log requires gps, which does not exist.");
+    expect(planFeatureChange([gps], "nope", true).blocked).toBe("Feature not found: nope");
+  });
+
+  it("ends on requirement cycles", () => {
+    const a = makeFeature("a", { requires: ["b"] });
+    const b = makeFeature("b", { requires: ["a"] });
+    expect(ids(planFeatureChange([a, b], "a", true))).toEqual(["+a", "+b"]);
+  });
+});
+
+describe("planFeatureRemoval", () => {
+  it("turns off the feature and what requires it, and lists every dependent", () => {
+    const gps = makeFeature("gps", { name: "GPS", enabled: true });
+    const log = makeFeature("log", { name: "Auto Log", enabled: true, requires: ["gps"] });
+    const upload = makeFeature("upload", { name: "Upload", requires: ["gps"] });
+    const plan = planFeatureRemoval([gps, log, upload], "gps");
+    expect(ids(plan)).toEqual(["-gps", "-log"]);
+    expect(plan.dependents.map(f => f.id)).toEqual(["log", "upload"]);
+    expect(describeRemoval(plan)).toBe("Required by Auto Log, Upload.\nDisable Auto Log (requires GPS)");
+  });
+
+  it("has no dependents for a feature nothing requires", () => {
+    expect(planFeatureRemoval([makeFeature("a", { enabled: true })], "a")).toMatchObject({ dependents: [] });
+  });
+});
+
+describe("ruleViolations", () => {
+  it("is empty when every rule holds", () => {
+    const gps = makeFeature("gps", { enabled: true });
+    expect(ruleViolations([gps, makeFeature("log", { enabled: true, requires: ["gps"] }), makeFeature("x", { requires: ["missing"] })])).toEqual([]);
+  });
+
+  it("reports broken requirements and conflicts once each", () => {
+    const features = [
+      makeFeature("a", { name: "A", enabled: true, requires: ["b", "missing"], conflictsWith: ["c"] }),
+      makeFeature("b", { name: "B" }),
+      makeFeature("c", { name: "C", enabled: true, conflictsWith: ["a"] }),
+    ];
+    expect(ruleViolations(features)).toEqual(["A requires B, which would be off.", "A requires missing, which does not exist.", "A conflicts with C."]);
+  });
+});
@@ -0,0 +1,236 @@
+import type { Feature, ConfigParam, ConfigValue } from "@/context/AppContext";
+import { featureStore } from "@/context/stores";
+import { parseDuration, formatDuration } from "@/lib/command-parser";
+
+/** Ids of the built-in features the app checks at runtime. */
+export const FEATURE = {
+  gpsTracking: "f001",
+  camera: "f002",
+  emailSync: "f003",
+  darkMode: "f004",
+  haptics: "f005",
+  autoGpsLog: "f006",
+  batteryMonitor: "f007",
+  networkWatch: "f008",
+  commandHistory: "f009",
+  photoCompression: "f010",
+} as const;
+
+/** Whether a feature is on right now, for code outside React; unknown ids are off. Components use `useFeature`. */
+export function isEnabled(id: string): boolean {
+  return featureStore.get().some(f => f.id === id && f.enabled);
+}
+
+/** A feature's setting, or the parameter's default when it has not been set; undefined for unknown keys. */
+export function configValue(feature: Feature | undefined, key: string): ConfigValue | undefined {
+  const param = feature?.params?.find(p => p.key === key);
+  if (!param) return undefined;
+  return feature!.config?.[key] ?? param.default;
+}
+
+/** `configValue` for code outside React, looked up by feature id. Components use `useFeatureConfig`. */
+export function featureConfig(id: string, key: string): ConfigValue | undefined {
+  return configValue(featureStore.get().find(f => f.id === id), key);
+}
+
+/** A value as the user types it: durations as `30s`, everything else as is. */
+export function formatConfigValue(param: ConfigParam, value: ConfigValue): string {
+  return param.type === "duration" ? formatDuration(Number(value)) : String(value);
+}
+
+/** The allowed values of a parameter, e.g. "5s to 1h" or "low | high". */
+export function describeParam(param: ConfigParam): string {
+  const show = (n: number) => (param.type === "duration" ? formatDuration(n) : String(n));
+  switch (param.type) {
+    case "enum":
+      return param.options.join(" | ");
+    case "string":
+      return param.maxLength !== undefined ? `text, up to ${param.maxLength} characters` : "text";
+    default:
+      if (param.min !== undefined && param.max !== undefined) return `${show(param.min)} to ${show(param.max)}`;
+      if (param.min !== undefined) return `at least ${show(param.min)}`;
+      if (param.max !== undefined) return `at most ${show(param.max)}`;
+      return param.type;
+  }
+}
+
+/** Converts typed text to a value for `param`, or explains why it does not fit. */
+export function parseConfigValue(param: ConfigParam, text: string): { value: ConfigValue } | { error: string } {
+  const trimmed = text.trim();
+  switch (param.type) {
+    case "number":
+    case "duration": {
+      const n = param.type === "duration" ? parseDuration(trimmed) : /^-?\d+(\.\d+)?$/.test(trimmed) ? parseFloat(trimmed) : null;
+      if (n === null) return { error: `${param.label} must be ${param.type === "duration" ? "a duration such as 30s or 5m" : "a number"}, got '${trimmed}'` };
+      if ((param.min !== undefined && n < param.min) || (param.max !== undefined && n > param.max)) {
+        return { error: `${param.label} must be ${describeParam(param)}` };
+      }
+      return { value: n };
+    }
+    case "enum": {
+      const option = param.options.find(o => o.toLowerCase() === trimmed.toLowerCase());
+      return option !== undefined ? { value: option } : { error: `${param.label} must be one of ${describeParam(param)}` };
+    }
+    case "string":
+      if (param.maxLength !== undefined && trimmed.length > param.maxLength) {
+        return { error: `${param.label} must be at most ${param.maxLength} characters` };
+      }
+      return { value: trimmed };
+  }
+}
+
+export interface FeatureChange {
+  feature: Feature;
+  enabled: boolean;
+  /** Why a feature other than the requested one changes. */
+  because?: string;
+}
+
+/** What turning one feature on or off takes once requirements and conflicts are followed. */
+export interface FeaturePlan {
+  /** Every feature that changes, the requested one first. */
+  changes: FeatureChange[];
+  /** Why the change cannot be made at all. */
+  blocked?: string;
+}
+
+function conflicts(a: Feature, b: Feature): boolean {
+  return !!a.conflictsWith?.includes(b.id) || !!b.conflictsWith?.includes(a.id);
+}
+
+/**
+ * Works out every change that setting `id` to `enabled` implies: turning a
+ * feature on turns on what it requires and off what conflicts with it;
+ * turning one off turns off what requires it. The plan is blocked when it
+ * would have to both turn a feature on and off, or needs a feature that
+ * does not exist.
+ */
+export function planFeatureChange(features: Feature[], id: string, enabled: boolean): FeaturePlan {
+  const byId = new Map(features.map(f => [f.id, f]));
+  const state = new Map(features.map(f => [f.id, f.enabled]));
+  const changes: FeatureChange[] = [];
+  const decided = new Map<string, FeatureChange>();
+  let blocked: string | undefined;
+
+  const set = (feature: Feature, on: boolean, because?: string) => {
+    if (blocked) return;
+    const earlier = decided.get(feature.id);
+    if (earlier && earlier.enabled !== on) {
+      blocked = `${feature.name} would have to be turned ${on ? "on" : "off"} (${because}) and ${earlier.enabled ? "on" : "off"} (${earlier.because ?? "requested"}).`;
+      return;
+    }
+    if (earlier || state.get(feature.id) === on) {
+      // Already in this state, but pin it so nothing later in the plan flips it back.
+      if (!earlier) decided.set(feature.id, { feature, enabled: on, because });
+      return;
+    }
+    const change = { feature, enabled: on, because };
+    decided.set(feature.id, change);
+    changes.push(change);
+    state.set(feature.id, on);
+
+    if (on) {
+      for (const required of feature.requires ?? []) {
+        const dep = byId.get(required);
+        if (!dep) {
+          blocked = `${feature.name} requires ${required}, which does not exist.`;
+          return;
+        }
+        set(dep, true, `required by ${feature.name}`);
+      }
+      for (const other of features) {
+        if (other.id !== feature.id && state.get(other.id) && conflicts(feature, other)) set(other, false, `conflicts with ${feature.name}`);
+      }
+    } else {
+      for (const other of features) {
+        if (state.get(other.id) && other.requires?.includes(feature.id)) set(other, false, `requires ${feature.name}`);
+      }
+    }
+  };
+
+  const target = byId.get(id);
+  if (!target) return { changes: [], blocked: `Feature not found: ${id}` };
+  set(target, enabled);
+  return blocked ? { changes: [], blocked } : { changes };
+}
+
+/** What removing a feature takes. */
+export interface RemovalPlan extends FeaturePlan {
+  /**
+   * Features that require the removed one, on or off. They keep the
+   * requirement, so they cannot be turned on again until it is back.
+   */
+  dependents: Feature[];
+}
+
+/**
+ * Works out what removing `id` takes: it is turned off first, along with
+ * everything that requires it, so no feature left on depends on it.
+ */
+export function planFeatureRemoval(features: Feature[], id: string): RemovalPlan {
+  return { ...planFeatureChange(features, id, false), dependents: features.filter(f => f.requires?.includes(id)) };
+}
+
+/** Why a removal needs confirming, e.g. "Required by Auto GPS Log." followed by what it turns off. */
+export function describeRemoval(plan: RemovalPlan): string {
+  if (plan.blocked) return plan.blocked;
+  const lines = [`Required by ${plan.dependents.map(f => f.name).join(", ")}.`];
+  // Every change but the removed feature's own has a reason.
+  const others = plan.changes.filter(c => c.because);
+  if (others.length) lines.push(describePlan({ changes: others }));
+  return lines.join("\n");
+}
+
+/** One line per change, e.g. "Enable GPS Tracking (required by Auto GPS Log)". */
+export function describePlan(plan: FeaturePlan): string {
+  if (plan.blocked) return plan.blocked;
+  return plan.changes
+    .map(c => `${c.enabled ? "Enable" : "Disable"} ${c.feature.name}${c.because ? ` (${c.because})` : ""}`)
+    .join("\n");
+}
+
+/**
+ * `id` with what it requires as a tree below it, then what conflicts with it
+ * and what requires it. A feature already shown higher up is not expanded
+ * again, so cycles end.
+ */
+export function dependencyTree(features: Feature[], id: string): string {
+  const byId = new Map(features.map(f => [f.id, f]));
+  const label = (fid: string) => {
+    const f = byId.get(fid);
+    return f ? `${f.name} (${f.id}) [${f.enabled ? "ON" : "OFF"}]` : `${fid} [MISSING]`;
+  };
+  const lines: string[] = [label(id)];
+  const walk = (fid: string, depth: number, seen: Set<string>) => {
+    for (const required of byId.get(fid)?.requires ?? []) {
+      const cycle = seen.has(required);
+      lines.push(`${"  ".repeat(depth)}└ requires ${label(required)}${cycle ? " (cycle)" : ""}`);
+      if (!cycle) walk(required, depth + 1, new Set([...seen, required]));
+    }
+  };
+  walk(id, 1, new Set([id]));
+
+  const feature = byId.get(id);
+  const conflicting = features.filter(f => f.id !== id && feature && conflicts(feature, f));
+  const dependents = features.filter(f => f.requires?.includes(id));
+  lines.push(`  conflicts with: ${conflicting.length ? conflicting.map(f => label(f.id)).join(", ") : "none"}`);
+  lines.push(`  required by: ${dependents.length ? dependents.map(f => label(f.id)).join(", ") : "none"}`);
+  return lines.join("\n");
+}
+
+/** Requirements and conflicts that a set of feature states breaks, one sentence each. */
+export function ruleViolations(features: Feature[]): string[] {
+  const byId = new Map(features.map(f => [f.id, f]));
+  const problems = new Set<string>();
+  for (const f of features.filter(f => f.enabled)) {
+    for (const id of f.requires ?? []) {
+      const dep = byId.get(id);
+      if (!dep) problems.add(`${f.name} requires ${id}, which does not exist.`);
+      else if (!dep.enabled) problems.add(`${f.name} requires ${dep.name}, which would be off.`);
+    }
+    for (const other of features) {
+      if (other.enabled && other.id > f.id && conflicts(f, other)) problems.add(`${f.name} conflicts with ${other.name}.`);
+    }
+  }
+  return [...problems];
+}
@@ -0,0 +1,35 @@
+import * as FileSystem from "expo-file-system";
+
+/** A file in one of the app's folders, as the lists of backups and manifests show it. */
+export interface StoredFile {
+  name: string;
+  uri: string;
+  size: number;
+  modifiedAt?: string;
+}
+
+/** The last path segment of a file URI. */
+export function fileName(uri: string): string {
+  return uri.slice(uri.lastIndexOf("/") + 1);
+}
+
+/** The URI of a folder in the app's documents, ending in '/'; created on first use. */
+export async function documentFolder(name: string): Promise<string> {
+  if (!FileSystem.documentDirectory) throw new Error("This device has no document storage for the app.");
+  const uri = `${FileSystem.documentDirectory}${name}/`;
+  if (!(await FileSystem.getInfoAsync(uri)).exists) await FileSystem.makeDirectoryAsync(uri, { intermediates: true });
+  return uri;
+}
+
+export async function describeFile(uri: string): Promise<StoredFile> {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) return { name: fileName(uri), uri, size: 0 };
+  return { name: fileName(uri), uri, size: info.size, modifiedAt: new Date(info.modificationTime * 1000).toISOString() };
+}
+
+/** The `.json` files in a folder from `documentFolder`, newest first by their time-stamped names. */
+export async function listJsonFiles(folder: string): Promise<StoredFile[]> {
+  const names = (await FileSystem.readDirectoryAsync(folder)).filter(name => name.endsWith(".json"));
+  const files = await Promise.all(names.map(name => describeFile(folder + name)));
+  return files.sort((a, b) => b.name.localeCompare(a.name));
+}
@@ -0,0 +1,83 @@
+import { registry } from "@/lib/commands";
+import { tokenize, splitPipeline, CommandSyntaxError } from "@/lib/command-parser";
+import { makeContext, makeFeature } from "@/lib/test-utils";
+import "@/lib/builtin-commands";
+import "@/lib/filters";
+
+const features = [
+  makeFeature("01HZ0000000000000000000001", { name: "GPS Tracking", category: "Sensors", enabled: true }),
+  makeFeature("01HZ0000000000000000000002", { name: "Camera Capture", category: "Sensors" }),
+  makeFeature("01HZ0000000000000000000003", { name: "Dark Mode", category: "UI", enabled: true }),
+];
+
+const run = (line: string) => registry.execute(line, makeContext({ features }));
+
+describe("splitPipeline", () => {
+  it("splits tokens into stages", () => {
+    const stages = splitPipeline(tokenize("list | grep gps | count"));
+    expect(stages.map(s => s.map(t => t.value))).toEqual([["list"], ["grep", "gps"], ["count"]]);
+  });
+
+  it("returns no stages for empty input", () => {
+    expect(splitPipeline(tokenize("   "))).toEqual([]);
+  });
+
+  it("rejects empty stages", () => {
+    const message = (input: string) => {
+      try {
+        splitPipeline(tokenize(input));
+      } catch (e) {
+        if (e instanceof CommandSyntaxError) return e.message;
+        throw e;
+      }
+    };
+    expect(message("| grep x")).toBe("Expected a command before '|'");
+    expect(message("list | | count")).toBe("Expected a command before '|'");
+    expect(message("list |")).toBe("Expected a filter after '|'");
+  });
+});
+
+describe("pipelines", () => {
+  it("passes rows through each filter in turn", () => {
+    const result = run("list | grep Sensors | sort name | head 1");
+    expect(result.success).toBe(true);
+    expect(result.data?.map(r => r.name)).toEqual(["Camera Capture"]);
+    expect(result.output).toMatchObject({ kind: "table", rows: result.data });
+  });
+
+  it("counts rows at the end of a pipeline", () => {
+    expect(run("ls | grep --invert UI | count").message).toBe("2");
+  });
+
+  it("rejects a filter used as a command, and a command used as a filter", () => {
+    expect(run("count").message).toMatch(/^Unknown command: 'count'\. 'count' is a filter; use it after '\|'\./);
+    expect(run("list | status").message).toMatch(/^Unknown filter: 'status'/);
+  });
+
+  it("refuses to filter a command that produces no rows", () => {
+    expect(run("status | count").message).toMatch(/^'status' produces no rows to filter/);
+  });
+});
+
+describe("filters", () => {
+  it("greps with a regular expression, and reports an invalid one", () => {
+    expect(run("list | grep --regex 'dark|gps' | count").message).toBe("2");
+    expect(run("list | grep --regex '('")).toMatchObject({ success: false, message: expect.stringMatching(/^Invalid regex: /) });
+  });
+
+  it("keeps the last rows, or none", () => {
+    expect(run("list | tail 1").data?.map(r => r.name)).toEqual(["Dark Mode"]);
+    expect(run("list | last 0").message).toBe("(no rows)");
+  });
+
+  it("sorts by a field, and names the fields when it does not know one", () => {
+    expect(run("list | sort name --desc").data?.map(r => r.name)).toEqual(["GPS Tracking", "Dark Mode", "Camera Capture"]);
+    expect(run("list | sort colour").message).toMatch(/^Unknown field: colour\. Fields: /);
+  });
+
+  it("prints rows as JSON", () => {
+    const result = run("list | head 1 | json");
+    expect(JSON.parse(result.message)).toEqual(result.data);
+    expect(result.output).toEqual({ kind: "json", value: result.data });
+  });
+});
@@ -0,0 +1,80 @@
+import { registry, renderRows, formatRow, Row } from "@/lib/commands";
+
+registry.registerFilter({
+  name: "grep",
+  args: [{ name: "pattern", rest: true }],
+  options: [
+    { name: "invert", type: "boolean", summary: "keep rows that do not match" },
+    { name: "regex", type: "boolean", summary: "treat the pattern as a regular expression" },
+  ],
+  summary: "keep rows containing text",
+  description: "Keep rows whose rendered text contains the pattern (case-insensitive).",
+  apply: (input, { pattern, invert, regex }) => {
+    const format = input.format ?? formatRow;
+    let test: (text: string) => boolean;
+    if (regex) {
+      let re: RegExp;
+      try {
+        re = new RegExp(pattern as string, "i");
+      } catch (e) {
+        return { success: false, message: `Invalid regex: ${(e as Error).message}` };
+      }
+      test = text => re.test(text);
+    } else {
+      const needle = String(pattern).toLowerCase();
+      test = text => text.toLowerCase().includes(needle);
+    }
+    return renderRows({ ...input, data: input.data.filter(row => test(format(row)) !== !!invert) });
+  },
+});
+
+registry.registerFilter({
+  name: "head",
+  aliases: ["first"],
+  args: [{ name: "n", type: "number", optional: true, min: 0 }],
+  summary: "keep the first n rows (default 10)",
+  apply: (input, { n = 10 }) => renderRows({ ...input, data: input.data.slice(0, n as number) }),
+});
+
+registry.registerFilter({
+  name: "tail",
+  aliases: ["last"],
+  args: [{ name: "n", type: "number", optional: true, min: 0 }],
+  summary: "keep the last n rows (default 10)",
+  apply: (input, { n = 10 }) => renderRows({ ...input, data: n === 0 ? [] : input.data.slice(-(n as number)) }),
+});
+
+function compareValues(a: Row[string] | undefined, b: Row[string] | undefined): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a ?? "").localeCompare(String(b ?? ""), undefined, { numeric: true, sensitivity: "base" });
+}
+
+registry.registerFilter({
+  name: "sort",
+  args: [{ name: "field", optional: true }],
+  options: [{ name: "desc", type: "boolean", summary: "sort in descending order" }],
+  summary: "sort rows by a field, or by their text",
+  apply: (input, args) => {
+    const field = args.field as string | undefined;
+    if (field && input.data.length && !(field in input.data[0])) {
+      return { success: false, message: `Unknown field: ${field}. Fields: ${Object.keys(input.data[0]).join(", ")}` };
+    }
+    const format = input.format ?? formatRow;
+    const key = (row: Row) => (field ? row[field] : format(row));
+    const sorted = [...input.data].sort((a, b) => compareValues(key(a), key(b)) * (args.desc ? -1 : 1));
+    return renderRows({ ...input, data: sorted });
+  },
+});
+
+registry.registerFilter({
+  name: "count",
+  aliases: ["wc"],
+  summary: "count rows",
+  apply: (input) => ({ success: true, message: String(input.data.length), data: [{ count: input.data.length }] }),
+});
+
+registry.registerFilter({
+  name: "json",
+  summary: "print rows as JSON",
+  apply: (input) => ({ ...input, message: JSON.stringify(input.data, null, 2), output: { kind: "json", value: input.data } }),
+});
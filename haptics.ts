@@ -0,0 +1,15 @@
+import * as Haptics from "expo-haptics";
+import { FEATURE, isEnabled } from "@/lib/features";
+
+/** expo-haptics, silenced while Haptic Feedback is off. */
+export const haptics = {
+  impact(style: Haptics.ImpactFeedbackStyle = Haptics.ImpactFeedbackStyle.Medium) {
+    if (isEnabled(FEATURE.haptics)) Haptics.impactAsync(style);
+  },
+  notify(type: Haptics.NotificationFeedbackType) {
+    if (isEnabled(FEATURE.haptics)) Haptics.notificationAsync(type);
+  },
+  selection() {
+    if (isEnabled(FEATURE.haptics)) Haptics.selectionAsync();
+  },
+};
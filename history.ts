@@ -0,0 +1,142 @@
+import { useState } from "react";
+import type { CommandLog } from "@/context/AppContext";
+import { CommandSyntaxError } from "@/lib/command-parser";
+
+/** Inputs typed by the user, oldest first; `!n` refers to entry n (1-based). */
+export function inputHistory(logs: CommandLog[]): string[] {
+  return logs.filter(l => !l.source).map(l => l.command).reverse();
+}
+
+/**
+ * Expands `!!` (previous input), `!n` (input n) and `!-n` (n-th previous
+ * input) outside of quotes. Throws a `CommandSyntaxError` pointing at an
+ * event that does not exist.
+ */
+export function expandHistory(input: string, history: string[]): string {
+  let out = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"' && i + 1 < input.length) {
+        out += ch + input[++i];
+        continue;
+      }
+      if (ch === quote) quote = null;
+      out += ch;
+      continue;
+    }
+    if (ch === "\\" && i + 1 < input.length) {
+      out += ch + input[++i];
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      out += ch;
+      continue;
+    }
+    if (ch !== "!") {
+      out += ch;
+      continue;
+    }
+
+    const m = /^!(!|-?\d+)/.exec(input.slice(i));
+    if (!m) {
+      out += ch;
+      continue;
+    }
+    const ref = m[1];
+    const n = ref === "!" ? -1 : parseInt(ref, 10);
+    const index = n < 0 ? history.length + n : n - 1;
+    const event = n === 0 ? undefined : history[index];
+    if (event === undefined) throw new CommandSyntaxError(`${m[0]}: event not found`, i, i + m[0].length);
+    out += event;
+    i += m[0].length - 1;
+  }
+
+  return out;
+}
+
+/** Index of the newest entry at or before `from` that contains `query`, or -1. */
+export function searchHistory(history: string[], query: string, from = history.length - 1): number {
+  const q = query.toLowerCase();
+  for (let i = Math.min(from, history.length - 1); i >= 0; i--) {
+    if (history[i].toLowerCase().includes(q)) return i;
+  }
+  return -1;
+}
+
+interface SearchState {
+  query: string;
+  /** Index into the history of the current match, or -1. */
+  match: number;
+}
+
+/**
+ * Shell-style recall over `history`: up/down walks entries while keeping the
+ * unsent draft, and reverse search finds older entries containing a query.
+ */
+export function useInputHistory(history: string[], input: string, setInput: (text: string) => void) {
+  const [index, setIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [search, setSearch] = useState<SearchState | null>(null);
+
+  const previous = () => {
+    if (history.length === 0) return;
+    const next = index === null ? history.length - 1 : Math.max(index - 1, 0);
+    if (index === null) setDraft(input);
+    setIndex(next);
+    setInput(history[next]);
+  };
+
+  const next = () => {
+    if (index === null) return;
+    if (index + 1 >= history.length) {
+      setIndex(null);
+      setInput(draft);
+      return;
+    }
+    setIndex(index + 1);
+    setInput(history[index + 1]);
+  };
+
+  const reset = () => {
+    setIndex(null);
+    setDraft("");
+    setSearch(null);
+  };
+
+  const startSearch = () => {
+    if (search) {
+      // Repeating the search moves to the next older match.
+      const older = search.match > 0 ? searchHistory(history, search.query, search.match - 1) : -1;
+      if (older !== -1) setSearch({ ...search, match: older });
+      return;
+    }
+    setSearch({ query: "", match: -1 });
+  };
+
+  const setSearchQuery = (query: string) => {
+    setSearch({ query, match: query ? searchHistory(history, query) : -1 });
+  };
+
+  const acceptSearch = () => {
+    if (search && search.match !== -1) setInput(history[search.match]);
+    setSearch(null);
+  };
+
+  const cancelSearch = () => setSearch(null);
+
+  return {
+    previous,
+    next,
+    reset,
+    search,
+    searchMatch: search && search.match !== -1 ? history[search.match] : null,
+    startSearch,
+    setSearchQuery,
+    acceptSearch,
+    cancelSearch,
+  };
+}
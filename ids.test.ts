@@ -0,0 +1,36 @@
+import { shortIds, matchId, upgradeId, isUlid } from "@/lib/ids";
+
+describe("shortIds", () => {
+  it("shortens each id to the shortest unique prefix, but not below the minimum", () => {
+    const ids = ["01J8ZQ4K7MABCDEFGHJKMNPQRS", "01J8ZQ4K7NABCDEFGHJKMNPQRS", "01J9AAAAAAAAAAAAAAAAAAAAAA"];
+    expect([...shortIds(ids).values()]).toEqual(["01J8ZQ4K7M", "01J8ZQ4K7N", "01J9AA"]);
+  });
+
+  it("keeps ids shorter than the minimum whole", () => {
+    expect(shortIds(["f001", "f002"]).get("f001")).toBe("f001");
+  });
+});
+
+describe("matchId", () => {
+  const records = [{ id: "01J8ZQ4K7MABCDEFGHJKMNPQRS" }, { id: "01J8ZQ4K7NABCDEFGHJKMNPQRS" }, { id: "f001" }];
+
+  it("matches a prefix of at least the minimum length, ignoring case", () => {
+    expect(matchId(records, "01j8zq4k7m")).toEqual([records[0]]);
+    expect(matchId(records, "01J8ZQ")).toEqual([records[0], records[1]]);
+  });
+
+  it("matches shorter text only against whole ids", () => {
+    expect(matchId(records, "01J8")).toEqual([]);
+    expect(matchId(records, "F001")).toEqual([records[2]]);
+    expect(matchId(records, "f0")).toEqual([]);
+  });
+});
+
+describe("upgradeId", () => {
+  it("turns an old id into the same ULID every time, and leaves ULIDs alone", () => {
+    const id = upgradeId("f001", "2026-01-01T00:00:00.000Z");
+    expect(isUlid(id)).toBe(true);
+    expect(upgradeId("f001", "2026-01-01T00:00:00.000Z")).toBe(id);
+    expect(upgradeId(id, "2026-02-01T00:00:00.000Z")).toBe(id);
+  });
+});
@@ -0,0 +1,108 @@
+import { getRandomBytes } from "expo-crypto";
+import { sha256 } from "@noble/hashes/sha2";
+import { utf8ToBytes } from "@noble/hashes/utils";
+
+/** Crockford's base32: digits sort in the same order as the values they encode. */
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+/** Ids are never shown shorter than this, so that short ids stay stable as records are added. */
+export const MIN_PREFIX = 6;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+function encodeTime(time: number): string {
+  let out = "";
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    out = ALPHABET[time % 32] + out;
+    time = Math.floor(time / 32);
+  }
+  return out;
+}
+
+function encodeDigits(digits: number[]): string {
+  return digits.map(d => ALPHABET[d]).join("");
+}
+
+/** Adds one to a base32 number; null when it overflows. */
+function increment(digits: number[]): number[] | null {
+  const next = [...digits];
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < 31) {
+      next[i]++;
+      return next;
+    }
+    next[i] = 0;
+  }
+  return null;
+}
+
+/**
+ * A new ULID: 10 characters of milliseconds since the epoch followed by 16
+ * random ones, so ids sort by creation time as plain strings and two devices
+ * never mint the same one. Ids made within one millisecond, or while the
+ * clock runs backwards, continue from the previous id so they still sort in
+ * the order they were made.
+ */
+export function ulid(time = Date.now()): string {
+  const next = time > lastTime ? null : increment(lastRandom);
+  if (next) {
+    lastRandom = next;
+  } else {
+    lastTime = Math.max(time, lastTime + 1);
+    // 256 is a multiple of 32, so every digit is equally likely.
+    lastRandom = Array.from(getRandomBytes(RANDOM_LENGTH), b => b % 32);
+  }
+  return encodeTime(lastTime) + encodeDigits(lastRandom);
+}
+
+export function isUlid(id: string): boolean {
+  return ULID_PATTERN.test(id);
+}
+
+/**
+ * The ULID an id from older builds becomes: its time is the record's own,
+ * and its random part is hashed from the old id, so the same record gets the
+ * same new id on every device and in every backup.
+ */
+export function upgradeId(id: string, timestamp: string): string {
+  if (isUlid(id)) return id;
+  const time = Date.parse(timestamp);
+  const digits = Array.from(sha256(utf8ToBytes(id)).slice(0, RANDOM_LENGTH), b => b % 32);
+  return encodeTime(Number.isNaN(time) ? 0 : time) + encodeDigits(digits);
+}
+
+/**
+ * The shortest prefix of each id that no other id in `ids` starts with,
+ * and at least `MIN_PREFIX` long. Ids shorter than that are kept whole.
+ */
+export function shortIds(ids: string[]): Map<string, string> {
+  const sorted = [...new Set(ids.map(id => id.toUpperCase()))].sort();
+  const common = (a: string | undefined, b: string) => {
+    if (a === undefined) return 0;
+    let n = 0;
+    while (n < a.length && n < b.length && a[n] === b[n]) n++;
+    return n;
+  };
+  const lengths = new Map<string, number>();
+  sorted.forEach((id, i) => {
+    lengths.set(id, Math.max(MIN_PREFIX, common(sorted[i - 1], id) + 1, common(sorted[i + 1], id) + 1));
+  });
+  return new Map(ids.map(id => [id, id.slice(0, lengths.get(id.toUpperCase()))]));
+}
+
+/**
+ * Records whose id is `text` or starts with it, ignoring case. An exact
+ * match wins over prefixes; more than one result means the prefix is
+ * ambiguous. Prefixes shorter than `MIN_PREFIX` match nothing, since ids
+ * made close together share their first characters.
+ */
+export function matchId<T extends { id: string }>(records: T[], text: string): T[] {
+  const wanted = text.toUpperCase();
+  const exact = records.filter(r => r.id.toUpperCase() === wanted);
+  if (exact.length || wanted.length < MIN_PREFIX) return exact;
+  return records.filter(r => r.id.toUpperCase().startsWith(wanted));
+}
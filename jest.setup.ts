@@ -0,0 +1,2 @@
+// Native modules that jest-expo does not mock.
+jest.mock("@react-native-async-storage/async-storage", () => require("@react-native-async-storage/async-storage/jest/async-storage-mock"));
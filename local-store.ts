@@ -0,0 +1,461 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { z } from "zod";
+import type { Feature, ConfigParam, FeatureProfile, AuditEntry, GPSLog, PhotoLog, CommandLog, EmailQueue, Script, Schedule, NetworkEvent } from "@/context/AppContext";
+import type { Output } from "@/lib/commands";
+import type { RetentionPolicies } from "@/lib/retention";
+import { sealText, openText, VaultLockedError } from "@/lib/vault";
+import { upgradeId } from "@/lib/ids";
+
+/** Bump together with a new entry in `MIGRATIONS` whenever the stored shape changes. */
+export const SCHEMA_VERSION = 4;
+
+const VERSION_KEY = "schemaVersion";
+const QUARANTINE_KEY = "quarantine";
+/** Holds a commit while it is being applied; replayed on load if the app died mid-write. */
+const JOURNAL_KEY = "journal";
+
+const bounds = { min: z.number().optional(), max: z.number().optional() };
+
+const configParamSchema: z.ZodType<ConfigParam> = z.discriminatedUnion("type", [
+  z.object({ key: z.string(), label: z.string(), type: z.literal("number"), default: z.number(), ...bounds }),
+  z.object({ key: z.string(), label: z.string(), type: z.literal("duration"), default: z.number(), ...bounds }),
+  z.object({ key: z.string(), label: z.string(), type: z.literal("enum"), default: z.string(), options: z.array(z.string()).min(1) }),
+  z.object({ key: z.string(), label: z.string(), type: z.literal("string"), default: z.string(), maxLength: z.number().optional() }),
+]);
+
+export const featureSchema: z.ZodType<Feature> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  enabled: z.boolean(),
+  category: z.string(),
+  addedAt: z.string(),
+  requires: z.array(z.string()).optional(),
+  conflictsWith: z.array(z.string()).optional(),
+  params: z.array(configParamSchema).optional(),
+  config: z.record(z.union([z.number(), z.string()])).optional(),
+});
+
+const gpsLogSchema: z.ZodType<GPSLog> = z.object({
+  id: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  accuracy: z.number(),
+  timestamp: z.string(),
+});
+
+const photoLogSchema: z.ZodType<PhotoLog> = z.object({
+  id: z.string(),
+  uri: z.string(),
+  timestamp: z.string(),
+});
+
+const outputSchema = z.custom<Output>(v => typeof v === "object" && v !== null && "kind" in v, "Invalid output");
+
+const commandLogSchema: z.ZodType<CommandLog> = z.object({
+  id: z.string(),
+  command: z.string(),
+  result: z.string(),
+  timestamp: z.string(),
+  type: z.enum(["success", "error", "info"]),
+  source: z.enum(["script", "schedule"]).optional(),
+  output: outputSchema.optional(),
+});
+
+const emailQueueSchema: z.ZodType<EmailQueue> = z.object({
+  id: z.string(),
+  subject: z.string(),
+  body: z.string(),
+  createdAt: z.string(),
+  sent: z.boolean(),
+});
+
+const scriptSchema: z.ZodType<Script> = z.object({
+  id: z.string(),
+  name: z.string(),
+  steps: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const auditEntrySchema: z.ZodType<AuditEntry> = z.object({
+  id: z.string(),
+  at: z.string(),
+  featureId: z.string(),
+  featureName: z.string(),
+  action: z.enum(["add", "remove", "enable", "disable", "config"]),
+  source: z.enum(["command", "schedule", "admin", "sensors", "profile", "import", "undo", "restore"]),
+  key: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+const profileSchema: z.ZodType<FeatureProfile> = z.object({
+  id: z.string(),
+  name: z.string(),
+  features: z.array(
+    z.object({
+      id: z.string(),
+      enabled: z.boolean(),
+      config: z.record(z.union([z.number(), z.string()])).optional(),
+    })
+  ),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const scheduleSchema: z.ZodType<Schedule> = z.object({
+  id: z.string(),
+  command: z.string(),
+  spec: z.string(),
+  createdAt: z.string(),
+  lastRunAt: z.string().optional(),
+  nextRunAt: z.string(),
+});
+
+const networkEventSchema: z.ZodType<NetworkEvent> = z.object({
+  id: z.string(),
+  online: z.boolean(),
+  type: z.string(),
+  at: z.string(),
+});
+
+const retentionPolicySchema = z.object({
+  maxCount: z.number().int().positive().optional(),
+  maxAge: z.number().positive().optional(),
+  maxSize: z.number().positive().optional(),
+});
+
+const retentionSchema: z.ZodType<RetentionPolicies> = z.object({
+  gps: retentionPolicySchema.optional(),
+  photo: retentionPolicySchema.optional(),
+  command: retentionPolicySchema.optional(),
+});
+
+/**
+ * Keys holding arrays of records; records are validated one by one. The log
+ * keys are only read to move logs saved by older builds into lib/log-store.
+ */
+const COLLECTIONS = {
+  features: featureSchema,
+  gpsLogs: gpsLogSchema,
+  photoLogs: photoLogSchema,
+  commandLogs: commandLogSchema,
+  emailQueue: emailQueueSchema,
+  scripts: scriptSchema,
+  schedules: scheduleSchema,
+  networkEvents: networkEventSchema,
+  profiles: profileSchema,
+  featureAudit: auditEntrySchema,
+};
+
+/** Keys holding a single value, validated as a whole. */
+const VALUES = {
+  emailAddress: z.string(),
+  aliases: z.record(z.string()),
+  variables: z.record(z.string()),
+  retention: retentionSchema,
+  /** Id of the profile applied or saved last; absent or null when none. */
+  activeProfile: z.string().nullable(),
+};
+
+/** Every key at once, as carried by a backup; unlike `loadState`, one invalid record rejects the whole value. */
+export const storedStateSchema = z
+  .object({
+    features: z.array(featureSchema),
+    gpsLogs: z.array(gpsLogSchema),
+    photoLogs: z.array(photoLogSchema),
+    commandLogs: z.array(commandLogSchema),
+    emailQueue: z.array(emailQueueSchema),
+    scripts: z.array(scriptSchema),
+    schedules: z.array(scheduleSchema),
+    networkEvents: z.array(networkEventSchema),
+    profiles: z.array(profileSchema),
+    featureAudit: z.array(auditEntrySchema),
+    ...VALUES,
+  })
+  .partial();
+
+type Collections = typeof COLLECTIONS;
+type Values = typeof VALUES;
+
+export type StoredState = { [K in keyof Collections]: z.infer<Collections[K]>[] } & { [K in keyof Values]: z.infer<Values[K]> };
+
+export type StorageKey = keyof StoredState;
+
+const STORAGE_KEYS = [...Object.keys(COLLECTIONS), ...Object.keys(VALUES)] as StorageKey[];
+
+/** Raw stored strings by key; `null` when the key is absent. */
+type Blobs = Record<string, string | null>;
+
+/** The time each kind of record was made, which an upgraded id starts with. */
+const CREATED_AT = {
+  features: "addedAt",
+  gpsLogs: "timestamp",
+  photoLogs: "timestamp",
+  commandLogs: "timestamp",
+  emailQueue: "createdAt",
+  scripts: "createdAt",
+  schedules: "createdAt",
+} as const;
+
+/** Built-in features keep their `f001`-style ids, which the app refers to. */
+const BUILTIN_FEATURE_ID = /^f\d{3}$/;
+
+/** Gives records from older builds ULIDs; see `upgradeId`. Records that already have one are returned as they are. */
+export function upgradeRecordIds<T extends { id: string }>(key: keyof typeof CREATED_AT, records: T[]): T[] {
+  return records.map(record => {
+    if (key === "features" && BUILTIN_FEATURE_ID.test(record.id)) return record;
+    const id = upgradeId(record.id, String((record as Record<string, unknown>)[CREATED_AT[key]]));
+    return id === record.id ? record : { ...record, id };
+  });
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (blobs: Blobs) => Blobs;
+}
+
+/**
+ * Ordered migrations from the version before each `version`. They work on the
+ * raw strings so that they can also repair blobs that no longer parse.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Store emailAddress as JSON like every other key",
+    up: blobs => ({ ...blobs, emailAddress: blobs.emailAddress === null ? null : JSON.stringify(blobs.emailAddress) }),
+  },
+  {
+    version: 2,
+    description: "Replace random ids with time-sortable ULIDs",
+    up: blobs => {
+      const next = { ...blobs };
+      for (const key of Object.keys(CREATED_AT) as (keyof typeof CREATED_AT)[]) {
+        try {
+          const records = JSON.parse(blobs[key] ?? "null");
+          if (!Array.isArray(records)) continue;
+          // Records without an id are left for validation to quarantine.
+          next[key] = JSON.stringify(records.map(r => (typeof r?.id === "string" ? upgradeRecordIds(key, [r])[0] : r)));
+        } catch (_) {
+          // Unparseable blobs are quarantined by the validation that follows.
+        }
+      }
+      return next;
+    },
+  },
+  {
+    version: 3,
+    description: "Give built-in features the features they depend on",
+    up: blobs => {
+      try {
+        const features = JSON.parse(blobs.features ?? "null");
+        if (!Array.isArray(features)) return blobs;
+        const requires: Record<string, string[]> = { f006: ["f001"], f010: ["f002"] };
+        return {
+          ...blobs,
+          features: JSON.stringify(features.map(f => (requires[f?.id] && !f.requires ? { ...f, requires: requires[f.id] } : f))),
+        };
+      } catch (_) {
+        return blobs;
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Give Auto GPS Log and Photo Compression their settings",
+    up: blobs => {
+      try {
+        const features = JSON.parse(blobs.features ?? "null");
+        if (!Array.isArray(features)) return blobs;
+        const params: Record<string, ConfigParam[]> = {
+          f006: [{ key: "interval", label: "Interval", type: "duration", default: 30_000, min: 5_000, max: 3_600_000 }],
+          f010: [{ key: "quality", label: "Quality", type: "number", default: 0.5, min: 0.05, max: 1 }],
+        };
+        return {
+          ...blobs,
+          features: JSON.stringify(features.map(f => (params[f?.id] && !f.params ? { ...f, params: params[f.id] } : f))),
+        };
+      } catch (_) {
+        return blobs;
+      }
+    },
+  },
+];
+
+/** A stored blob or record that failed to parse or validate, kept so it can be recovered. */
+export interface QuarantineEntry {
+  key: string;
+  reason: string;
+  raw: string;
+  at: string;
+}
+
+export interface LoadResult {
+  state: Partial<StoredState>;
+  /** Everything set aside so far, including entries from earlier launches. */
+  quarantine: QuarantineEntry[];
+}
+
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+async function readQuarantine(): Promise<QuarantineEntry[]> {
+  const raw = await AsyncStorage.getItem(QUARANTINE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(openText(raw));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (_) {
+    return [];
+  }
+}
+
+/**
+ * Reads every persisted key, runs pending migrations and validates the
+ * result. Blobs that do not parse or decrypt and records that do not
+ * validate are moved to the quarantine instead of being dropped; the cleaned
+ * data and the new schema version are written back in one `multiSet`. With
+ * the vault on, it must be unlocked first.
+ */
+export async function loadState(): Promise<LoadResult> {
+  await replayJournal();
+  const pairs = await AsyncStorage.multiGet([...STORAGE_KEYS, VERSION_KEY]);
+  const at = new Date().toISOString();
+  const quarantined: QuarantineEntry[] = [];
+  const dirty = new Set<StorageKey>();
+
+  let blobs: Blobs = {};
+  for (const [key, raw] of pairs) {
+    try {
+      blobs[key] = raw === null || key === VERSION_KEY ? raw : openText(raw);
+    } catch (e) {
+      if (e instanceof VaultLockedError) throw e;
+      quarantined.push({ key, reason: `Cannot decrypt: ${(e as Error).message}`, raw: raw!, at });
+      dirty.add(key as StorageKey);
+      blobs[key] = null;
+    }
+  }
+  const storedVersion = blobs[VERSION_KEY] ? parseInt(blobs[VERSION_KEY]!, 10) || 0 : 0;
+  delete blobs[VERSION_KEY];
+
+  for (const m of MIGRATIONS) {
+    if (m.version > storedVersion) blobs = m.up(blobs);
+  }
+
+  const state: Record<string, unknown> = {};
+
+  for (const key of STORAGE_KEYS) {
+    const raw = blobs[key];
+    if (raw === null || raw === undefined) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch (e) {
+      quarantined.push({ key, reason: `Unparseable JSON: ${(e as Error).message}`, raw, at });
+      dirty.add(key);
+      continue;
+    }
+
+    if (key in COLLECTIONS) {
+      if (!Array.isArray(value)) {
+        quarantined.push({ key, reason: "Expected a list", raw, at });
+        dirty.add(key);
+        continue;
+      }
+      const schema: z.ZodTypeAny = COLLECTIONS[key as keyof Collections];
+      const valid: unknown[] = [];
+      for (const record of value) {
+        const result = schema.safeParse(record);
+        if (result.success) {
+          valid.push(result.data);
+        } else {
+          quarantined.push({ key, reason: describeIssue(result.error), raw: JSON.stringify(record), at });
+          dirty.add(key);
+        }
+      }
+      state[key] = valid;
+    } else {
+      const result = VALUES[key as keyof Values].safeParse(value);
+      if (result.success) {
+        state[key] = result.data;
+      } else {
+        quarantined.push({ key, reason: describeIssue(result.error), raw, at });
+        dirty.add(key);
+      }
+    }
+  }
+
+  const quarantine = await readQuarantine();
+  const migrated = storedVersion < SCHEMA_VERSION;
+  if (migrated || dirty.size) {
+    const writes: [string, string][] = [];
+    const removals: string[] = [];
+    for (const key of STORAGE_KEYS) {
+      if (!migrated && !dirty.has(key)) continue;
+      if (key in state) writes.push([key, sealText(JSON.stringify(state[key]))]);
+      else if (pairs.some(([k, raw]) => k === key && raw !== null)) removals.push(key);
+    }
+    if (quarantined.length) writes.push([QUARANTINE_KEY, sealText(JSON.stringify([...quarantine, ...quarantined]))]);
+    // Data from a newer build keeps its version so that build can still read it.
+    if (migrated) writes.push([VERSION_KEY, String(SCHEMA_VERSION)]);
+    await AsyncStorage.multiSet(writes);
+    if (removals.length) await AsyncStorage.multiRemove(removals);
+  }
+
+  return { state: state as Partial<StoredState>, quarantine: [...quarantine, ...quarantined] };
+}
+
+async function replayJournal(): Promise<void> {
+  const raw = await AsyncStorage.getItem(JOURNAL_KEY);
+  if (raw) {
+    try {
+      await AsyncStorage.multiSet(JSON.parse(raw));
+    } catch (e) {
+      // A journal that does not parse was never completely written, so the keys were never touched.
+      console.warn("Discarding incomplete storage journal", e);
+    }
+  }
+  await AsyncStorage.removeItem(JOURNAL_KEY);
+}
+
+/**
+ * Writes several keys so that either all or none of them survive a crash:
+ * the pairs go to a journal first, then to their keys, then the journal is
+ * removed. A journal left behind is replayed by `loadState`.
+ */
+export function commitKeys(values: Partial<StoredState>): Promise<void> {
+  return commitPairs(Object.entries(values).map(([key, value]): [string, string] => [key, sealText(JSON.stringify(value))]));
+}
+
+async function commitPairs(pairs: [string, string][]): Promise<void> {
+  if (pairs.length === 0) return;
+  if (pairs.length === 1) return AsyncStorage.setItem(...pairs[0]);
+  await AsyncStorage.setItem(JOURNAL_KEY, JSON.stringify(pairs));
+  await AsyncStorage.multiSet(pairs);
+  await AsyncStorage.removeItem(JOURNAL_KEY);
+}
+
+/**
+ * Rewrites every stored key sealed with `withKey`, or in plain text for null,
+ * after reading it with the current key. Used when the vault is turned on or off.
+ */
+export async function resealStorage(withKey: Uint8Array | null): Promise<void> {
+  const pairs = await AsyncStorage.multiGet([...STORAGE_KEYS, QUARANTINE_KEY]);
+  const writes = pairs
+    .filter((pair): pair is [string, string] => pair[1] !== null)
+    .map(([key, raw]): [string, string] => [key, sealText(openText(raw), withKey)]);
+  await commitPairs(writes);
+}
+
+export function dropKeys(keys: readonly StorageKey[]): Promise<void> {
+  return AsyncStorage.multiRemove([...keys]);
+}
+
+export function clearQuarantine(): Promise<void> {
+  return AsyncStorage.removeItem(QUARANTINE_KEY);
+}
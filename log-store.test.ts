@@ -0,0 +1,86 @@
+/** Rows of each table by name, and what `PRAGMA user_version` reports. */
+const mockTables = new Map<string, Record<string, string | number | null>[]>();
+let mockVersion = 2;
+const mockDatabase = {
+  execAsync: jest.fn(async (_sql: string) => {}),
+  getFirstAsync: jest.fn(async (sql: string) => {
+    if (sql.startsWith("PRAGMA user_version")) return { user_version: mockVersion };
+    if (sql.includes("sqlite_master")) return mockTables.has("gps_logs") ? { name: "gps_logs" } : null;
+    return null;
+  }),
+  getAllAsync: jest.fn(async (sql: string) => mockTables.get(/FROM (\w+)/.exec(sql)![1]) ?? []),
+  runAsync: jest.fn(async (_sql: string, _params?: unknown[]) => {}),
+  withTransactionAsync: jest.fn(async (work: () => Promise<void>) => work()),
+  withExclusiveTransactionAsync: jest.fn(async (work: (txn: unknown) => Promise<void>) => mockExclusive(work)),
+  closeAsync: jest.fn(async () => {}),
+};
+
+/** Hands the work the database itself as its transaction. */
+function mockExclusive(work: (txn: unknown) => Promise<void>): Promise<void> {
+  return work(mockDatabase);
+}
+
+jest.mock("expo-sqlite", () => ({ openDatabaseAsync: jest.fn(async () => mockDatabase) }));
+
+jest.mock("@/lib/vault", () => ({
+  sealText: (text: string, withKey: Uint8Array | null = null) => (withKey ? `sealed(${text})` : text),
+  openText: (stored: string) => stored.replace(/^sealed\((.*)\)$/, "$1"),
+}));
+
+function logStore(): typeof import("@/lib/log-store") {
+  return require("@/lib/log-store");
+}
+
+function writes(pattern: string): unknown[][] {
+  return mockDatabase.runAsync.mock.calls.filter(([sql]) => sql.startsWith(pattern)).map(([, params]) => params ?? []);
+}
+
+beforeEach(() => {
+  jest.resetModules();
+  jest.clearAllMocks();
+  mockTables.clear();
+  mockVersion = 2;
+});
+
+describe("opening the database", () => {
+  it("moves the fields of version 1 rows into data", async () => {
+    mockVersion = 1;
+    mockTables.set("gps_logs", []).set("gps_logs_v1", [{ id: "01J8ZQ4K7MABCDEFGHJKMNPQRS", lat: 1, lng: 2, accuracy: 3, timestamp: "2026-01-01T00:00:00.000Z", cleared_by: null }]);
+    mockTables.set("command_logs_v1", [
+      { id: "01J8ZQ4K7NABCDEFGHJKMNPQRS", command: "help", result: "ok", type: "success", source: null, output: '{"text":"hi"}', timestamp: "2026-01-01T00:00:00.000Z", cleared_by: "b1" },
+    ]);
+    await logStore().countLogs("gps");
+    expect(writes("INSERT INTO gps_logs")).toEqual([
+      ["01J8ZQ4K7MABCDEFGHJKMNPQRS", "2026-01-01T00:00:00.000Z", '{"lat":1,"lng":2,"accuracy":3}', null],
+    ]);
+    expect(writes("INSERT INTO command_logs")).toEqual([
+      ["01J8ZQ4K7NABCDEFGHJKMNPQRS", "2026-01-01T00:00:00.000Z", '{"command":"help","result":"ok","type":"success","output":{"text":"hi"}}', "b1"],
+    ]);
+    expect(mockDatabase.execAsync).toHaveBeenCalledWith("PRAGMA user_version = 2");
+  });
+
+  it("leaves a new database alone", async () => {
+    mockVersion = 0;
+    await logStore().countLogs("gps");
+    expect(writes("INSERT")).toEqual([]);
+    expect(mockDatabase.execAsync).not.toHaveBeenCalledWith(expect.stringContaining("RENAME"));
+  });
+});
+
+describe("rekeyLogDatabase", () => {
+  it("re-seals the data of every log in one transaction, then vacuums", async () => {
+    mockTables.set("gps_logs", [{ id: "a", data: "{}" }]).set("photo_logs", [{ id: "b", data: "sealed({})" }]);
+    await logStore().rekeyLogDatabase(new Uint8Array(32));
+    expect(mockDatabase.withExclusiveTransactionAsync).toHaveBeenCalledTimes(1);
+    expect(writes("UPDATE")).toEqual([["sealed({})", "a"], ["sealed({})", "b"]]);
+    const update = Math.max(...mockDatabase.runAsync.mock.invocationCallOrder);
+    const vacuum = mockDatabase.execAsync.mock.invocationCallOrder[mockDatabase.execAsync.mock.calls.findIndex(([sql]) => sql === "VACUUM")];
+    expect(vacuum).toBeGreaterThan(update);
+  });
+
+  it("opens the data again for null", async () => {
+    mockTables.set("gps_logs", [{ id: "a", data: "sealed({})" }]);
+    await logStore().rekeyLogDatabase(null);
+    expect(writes("UPDATE")).toEqual([["{}", "a"]]);
+  });
+});
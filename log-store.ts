@@ -0,0 +1,284 @@
+import * as SQLite from "expo-sqlite";
+import type { GPSLog, PhotoLog, CommandLog } from "@/context/AppContext";
+import { sealText, openText } from "@/lib/vault";
+import { upgradeId } from "@/lib/ids";
+
+export interface LogRecords {
+  gps: GPSLog;
+  photo: PhotoLog;
+  command: CommandLog;
+}
+
+export type LogKind = keyof LogRecords;
+
+export const PAGE_SIZE = 50;
+
+/** Newest logs of each kind held in memory by AppProvider; older ones are paged in from the database. */
+export const RECENT_LIMIT = 200;
+
+/**
+ * Every log is a row with its id and time, which order and page the logs,
+ * and `data`: the rest of the record as JSON, sealed with the vault key
+ * while the vault is on. `cleared_by` hides rows removed by a clear that can
+ * still be undone.
+ */
+interface LogRow {
+  id: string;
+  timestamp: string;
+  data: string;
+}
+
+const TABLES: Record<LogKind, { table: string }> = {
+  gps: { table: "gps_logs" },
+  photo: { table: "photo_logs" },
+  command: { table: "command_logs" },
+};
+
+function toRow(record: LogRecords[LogKind]): SQLite.SQLiteBindValue[] {
+  const { id, timestamp, ...data } = record;
+  return [id, timestamp, sealText(JSON.stringify(data))];
+}
+
+function fromRow<K extends LogKind>(row: LogRow): LogRecords[K] {
+  return { ...JSON.parse(openText(row.data)), id: row.id, timestamp: row.timestamp };
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS gps_logs (
+  id TEXT PRIMARY KEY NOT NULL,
+  timestamp TEXT NOT NULL,
+  data TEXT NOT NULL,
+  cleared_by TEXT
+);
+CREATE INDEX IF NOT EXISTS gps_logs_timestamp ON gps_logs (timestamp, id);
+CREATE TABLE IF NOT EXISTS photo_logs (
+  id TEXT PRIMARY KEY NOT NULL,
+  timestamp TEXT NOT NULL,
+  data TEXT NOT NULL,
+  cleared_by TEXT
+);
+CREATE INDEX IF NOT EXISTS photo_logs_timestamp ON photo_logs (timestamp, id);
+CREATE TABLE IF NOT EXISTS command_logs (
+  id TEXT PRIMARY KEY NOT NULL,
+  timestamp TEXT NOT NULL,
+  data TEXT NOT NULL,
+  cleared_by TEXT
+);
+CREATE INDEX IF NOT EXISTS command_logs_timestamp ON command_logs (timestamp, id);
+`;
+
+/** Kept in `PRAGMA user_version`; bump it with a new step in `migrate` whenever existing rows change. */
+const DATABASE_VERSION = 2;
+
+const DATABASE_NAME = "logs.db";
+
+/** The columns version 1 kept each field in, besides the id and time; `output` held JSON. */
+const V1_COLUMNS: Record<LogKind, string[]> = {
+  gps: ["lat", "lng", "accuracy"],
+  photo: ["uri"],
+  command: ["command", "result", "type", "source", "output"],
+};
+
+function fromV1Row(kind: LogKind, row: Record<string, string | number | null>): LogRecords[LogKind] {
+  const record: Record<string, unknown> = { id: row.id, timestamp: row.timestamp };
+  for (const column of V1_COLUMNS[kind]) {
+    const value = row[column];
+    if (value !== null) record[column] = column === "output" ? JSON.parse(String(value)) : value;
+  }
+  return record as unknown as LogRecords[LogKind];
+}
+
+let database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+async function migrate(db: SQLite.SQLiteDatabase): Promise<void> {
+  const version = (await db.getFirstAsync<{ user_version: number }>("PRAGMA user_version"))?.user_version ?? 0;
+  if (version >= DATABASE_VERSION) return;
+  const existing = await db.getFirstAsync("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'gps_logs'");
+  await db.withTransactionAsync(async () => {
+    if (existing && version < 1) {
+      // Random ids from older builds become ULIDs at the time of their log.
+      for (const { table } of Object.values(TABLES)) {
+        const rows = await db.getAllAsync<{ id: string; timestamp: string }>(`SELECT id, timestamp FROM ${table}`);
+        for (const { id, timestamp } of rows) {
+          const next = upgradeId(id, timestamp);
+          if (next !== id) await db.runAsync(`UPDATE ${table} SET id = ? WHERE id = ?`, next, id);
+        }
+      }
+    }
+    if (existing && version < 2) {
+      // Fields move from their own columns into `data`, sealed when the vault is on.
+      for (const { table } of Object.values(TABLES)) {
+        await db.execAsync(`DROP INDEX IF EXISTS ${table}_timestamp; ALTER TABLE ${table} RENAME TO ${table}_v1;`);
+      }
+      await db.execAsync(SCHEMA);
+      for (const [kind, { table }] of Object.entries(TABLES) as [LogKind, { table: string }][]) {
+        const rows = await db.getAllAsync<Record<string, string | number | null>>(`SELECT * FROM ${table}_v1`);
+        for (const row of rows) {
+          await db.runAsync(`INSERT INTO ${table} (id, timestamp, data, cleared_by) VALUES (?, ?, ?, ?)`, [...toRow(fromV1Row(kind, row)), row.cleared_by]);
+        }
+        await db.execAsync(`DROP TABLE ${table}_v1`);
+      }
+    }
+    await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
+  });
+}
+
+function open(): Promise<SQLite.SQLiteDatabase> {
+  if (!database) {
+    database = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync("PRAGMA journal_mode = WAL");
+      await migrate(db);
+      await db.execAsync(SCHEMA);
+      // The undo history does not survive a restart, so clears from the last session are final.
+      for (const { table } of Object.values(TABLES)) {
+        await db.runAsync(`DELETE FROM ${table} WHERE cleared_by IS NOT NULL`);
+      }
+      return db;
+    })();
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+export interface LogQuery {
+  /** Only logs strictly older than this one (keyset pagination). */
+  before?: { id: string; timestamp: string };
+  /** Inclusive ISO time range. */
+  from?: string;
+  to?: string;
+  /** Defaults to `PAGE_SIZE`; -1 returns every match. */
+  limit?: number;
+}
+
+function whereClause(query: Omit<LogQuery, "limit">): { sql: string; params: SQLite.SQLiteBindValue[] } {
+  const conditions = ["cleared_by IS NULL"];
+  const params: SQLite.SQLiteBindValue[] = [];
+  if (query.before) {
+    conditions.push("(timestamp < ? OR (timestamp = ? AND id < ?))");
+    params.push(query.before.timestamp, query.before.timestamp, query.before.id);
+  }
+  if (query.from) {
+    conditions.push("timestamp >= ?");
+    params.push(query.from);
+  }
+  if (query.to) {
+    conditions.push("timestamp <= ?");
+    params.push(query.to);
+  }
+  return { sql: conditions.join(" AND "), params };
+}
+
+/** Logs newest first. */
+export async function queryLogs<K extends LogKind>(kind: K, query: LogQuery = {}): Promise<LogRecords[K][]> {
+  const db = await open();
+  const { table } = TABLES[kind];
+  const where = whereClause(query);
+  const rows = await db.getAllAsync<LogRow>(
+    `SELECT id, timestamp, data FROM ${table} WHERE ${where.sql} ORDER BY timestamp DESC, id DESC LIMIT ?`,
+    [...where.params, query.limit ?? PAGE_SIZE]
+  );
+  return rows.map(row => fromRow<K>(row));
+}
+
+/**
+ * Logs outside the newest `keep`, or older than `olderThan`, newest first:
+ * the ones a count or age limit drops. The database picks them, so the logs
+ * that stay are never read.
+ */
+export async function queryExpiredLogs<K extends LogKind>(kind: K, limits: { keep?: number; olderThan?: string }): Promise<LogRecords[K][]> {
+  const { table } = TABLES[kind];
+  const conditions: string[] = [];
+  const params: SQLite.SQLiteBindValue[] = [];
+  if (limits.olderThan !== undefined) {
+    conditions.push("timestamp < ?");
+    params.push(limits.olderThan);
+  }
+  if (limits.keep !== undefined) {
+    conditions.push(`id IN (SELECT id FROM ${table} WHERE cleared_by IS NULL ORDER BY timestamp DESC, id DESC LIMIT -1 OFFSET ?)`);
+    params.push(limits.keep);
+  }
+  if (conditions.length === 0) return [];
+  const db = await open();
+  const rows = await db.getAllAsync<LogRow>(
+    `SELECT id, timestamp, data FROM ${table} WHERE cleared_by IS NULL AND (${conditions.join(" OR ")}) ORDER BY timestamp DESC, id DESC`,
+    params
+  );
+  return rows.map(row => fromRow<K>(row));
+}
+
+export async function countLogs(kind: LogKind, query: Pick<LogQuery, "from" | "to"> = {}): Promise<number> {
+  const db = await open();
+  const where = whereClause(query);
+  const row = await db.getFirstAsync<{ n: number }>(`SELECT COUNT(*) AS n FROM ${TABLES[kind].table} WHERE ${where.sql}`, where.params);
+  return row?.n ?? 0;
+}
+
+/**
+ * A write to the log tables. Inserted records that already exist are left
+ * alone unless `replace` is set. `hide` removes every visible log up to
+ * `until` under `batch` until a matching `restore` or the next app start;
+ * `delete` and `purge` remove the given logs, or every log of their kind,
+ * for good.
+ */
+export type LogOp =
+  | { [K in LogKind]: { type: "insert"; kind: K; records: LogRecords[K][]; replace?: boolean } }[LogKind]
+  | { type: "hide"; kind: LogKind; batch: string; until: string }
+  | { type: "restore"; kind: LogKind; batch: string }
+  | { type: "delete"; kind: LogKind; ids: string[] }
+  | { type: "purge"; kind: LogKind };
+
+/** Applies operations in order in one transaction. */
+export async function applyLogOps(ops: LogOp[]): Promise<void> {
+  if (ops.length === 0) return;
+  const db = await open();
+  await db.withTransactionAsync(async () => {
+    for (const op of ops) {
+      const { table } = TABLES[op.kind];
+      if (op.type === "insert") {
+        const sql = `INSERT OR ${op.replace ? "REPLACE" : "IGNORE"} INTO ${table} (id, timestamp, data) VALUES (?, ?, ?)`;
+        for (const record of op.records) await db.runAsync(sql, toRow(record));
+      } else if (op.type === "hide") {
+        await db.runAsync(`UPDATE ${table} SET cleared_by = ? WHERE cleared_by IS NULL AND timestamp <= ?`, [op.batch, op.until]);
+      } else if (op.type === "restore") {
+        await db.runAsync(`UPDATE ${table} SET cleared_by = NULL WHERE cleared_by = ?`, [op.batch]);
+      } else if (op.type === "delete") {
+        for (const id of op.ids) await db.runAsync(`DELETE FROM ${table} WHERE id = ?`, [id]);
+      } else {
+        await db.runAsync(`DELETE FROM ${table}`);
+      }
+    }
+  });
+}
+
+/** Closes the database so that nothing stays readable while the vault is locked. */
+export async function closeLogDatabase(): Promise<void> {
+  const current = database;
+  database = null;
+  const db = await current?.catch(() => null);
+  await db?.closeAsync();
+}
+
+/**
+ * Seals the data of every log with `withKey`, or leaves it in plain text for
+ * null, in one transaction. The current key must still be active. Ids, times
+ * and clear batches stay readable either way.
+ *
+ * The database is vacuumed afterwards, so the pages that held the old text
+ * do not linger in the file or its WAL.
+ */
+export async function rekeyLogDatabase(withKey: Uint8Array | null): Promise<void> {
+  const db = await open();
+  await db.withExclusiveTransactionAsync(async txn => {
+    for (const { table } of Object.values(TABLES)) {
+      const rows = await txn.getAllAsync<{ id: string; data: string }>(`SELECT id, data FROM ${table}`);
+      for (const { id, data } of rows) {
+        await txn.runAsync(`UPDATE ${table} SET data = ? WHERE id = ?`, [sealText(openText(data), withKey), id]);
+      }
+    }
+  });
+  await db.execAsync("VACUUM");
+  await db.getFirstAsync("PRAGMA wal_checkpoint(TRUNCATE)");
+}
@@ -0,0 +1,88 @@
+import { registry, logWhenDone, Row, Column } from "@/lib/commands";
+import { formatBytes } from "@/lib/command-parser";
+import {
+  exportManifest,
+  listManifests,
+  findManifest,
+  readManifest,
+  planImport,
+  describeImport,
+  IMPORT_STRATEGIES,
+  ImportPlan,
+  ImportStrategy,
+} from "@/lib/manifest";
+
+const PLAN_COLUMNS: Column[] = [{ key: "change" }, { key: "feature" }, { key: "details" }];
+
+function planRows(plan: ImportPlan): Row[] {
+  return [
+    ...plan.added.map(f => ({ change: "add", feature: f.name, details: f.category })),
+    ...plan.changed.map(c => ({ change: plan.strategy === "add" ? "keep" : "update", feature: c.current.name, details: c.fields.join(", ") })),
+    ...plan.removed.map(f => ({ change: "remove", feature: f.name, details: f.category })),
+  ];
+}
+
+registry.register({
+  name: "features",
+  summary: "share feature sets as manifest files",
+  description: "A manifest holds every feature's definition, state and settings. Export one, move it to another device, and import it there.",
+  subcommands: [
+    {
+      name: "export",
+      summary: "write all features to a manifest in the manifests folder",
+      handler: (_args, { features, actions }) => {
+        logWhenDone(actions, "features export", exportManifest(features).then(file => ({
+          success: true,
+          message: `Exported ${features.length} features: ${file.name} (${formatBytes(file.size)})`,
+        })));
+        return { success: true, message: "Writing manifest…" };
+      },
+    },
+    {
+      name: "files",
+      summary: "list exported manifests",
+      handler: (_args, { actions }) => {
+        logWhenDone(actions, "features files", listManifests().then(manifests => {
+          const data: Row[] = manifests.map(m => ({ name: m.name.replace(/\.json$/, ""), size: formatBytes(m.size) }));
+          const format = (r: Row) => `  ${r.name}  ${r.size}`;
+          if (data.length === 0) return { success: true, message: "No manifests exported. Run 'features export' to create one." };
+          const columns: Column[] = [{ key: "name" }, { key: "size" }];
+          return { success: true, message: `Manifests (${data.length}):\n${data.map(format).join("\n")}`, output: { kind: "table", columns, rows: data } };
+        }));
+        return { success: true, message: "Reading the manifests folder…" };
+      },
+    },
+    {
+      name: "import",
+      args: [{ name: "manifest" }],
+      options: [
+        { name: "strategy", summary: "add (only new features), merge (default; also update) or replace (match the manifest exactly)" },
+        { name: "apply", type: "boolean", summary: "import; without it only the preview is shown" },
+      ],
+      summary: "preview or import a manifest",
+      description: "Shows what importing a manifest from 'features files' would add, change and remove. Add --apply to import it; 'undo' reverts it.",
+      handler: (args, ctx) => {
+        const manifest = args.manifest as string;
+        const strategy = (args.strategy ?? "merge") as ImportStrategy;
+        if (!IMPORT_STRATEGIES.includes(strategy)) {
+          return { success: false, message: `Invalid --strategy '${strategy}'. Use ${IMPORT_STRATEGIES.join(", ")}.` };
+        }
+        const command = `features import ${manifest}`;
+
+        logWhenDone(ctx.actions, command, findManifest(manifest).then(async file => {
+          if (!file) return { success: false, message: `Manifest not found: ${manifest}. See 'features files'.` };
+          const m = await readManifest(file.uri);
+          // Features may have changed while the file was read, so plan from the ones there are now.
+          const plan = planImport(m, ctx.features, strategy);
+          const output = { kind: "table", columns: PLAN_COLUMNS, rows: planRows(plan) } as const;
+          const from = `manifest from ${new Date(plan.exportedAt).toLocaleString()}`;
+          if (plan.problems.length) return { success: false, message: `Cannot import the ${from} (${strategy}):\n${describeImport(plan)}`, output };
+          if (!args.apply) return { success: true, message: `Importing the ${from} (${strategy}) would:\n${describeImport(plan)}\nAdd --apply to import it.`, output };
+          ctx.actions.importFeatures(plan);
+          return { success: true, message: `Imported the ${from} (${strategy}):\n${describeImport(plan)}`, output };
+        }));
+        return { success: true, message: args.apply ? `Importing ${manifest}…` : `Reading ${manifest}…` };
+      },
+    },
+  ],
+});
@@ -0,0 +1,54 @@
+import type { Feature } from "@/context/AppContext";
+import { planImport, describeImport, FeatureManifest } from "@/lib/manifest";
+import { makeFeature } from "@/lib/test-utils";
+
+function manifest(features: Feature[]): FeatureManifest {
+  return { format: "rubel-engine-features", version: 1, exportedAt: "2026-03-01T00:00:00.000Z", features };
+}
+
+describe("planImport", () => {
+  const gps = makeFeature("gps", { name: "GPS" });
+  const sonar = makeFeature("sonar", { name: "Sonar" });
+
+  it("matches features by id, then by name, and rewrites references to the ids here", () => {
+    const current = [gps, makeFeature("L1", { name: "Auto Log" })];
+    const plan = planImport(
+      manifest([{ ...gps, enabled: true }, makeFeature("L9", { name: "auto log", requires: ["gps"] }), makeFeature("U9", { name: "Upload", requires: ["L9"] })]),
+      current,
+      "merge"
+    );
+    expect(plan.changed.map(c => [c.current.id, c.fields])).toEqual([["gps", ["enabled"]], ["L1", ["name", "requires"]]]);
+    expect(plan.added).toEqual([makeFeature("U9", { name: "Upload", requires: ["L1"] })]);
+    expect(plan.features.map(f => f.id)).toEqual(["gps", "L1", "U9"]);
+  });
+
+  it("matches each feature here at most once", () => {
+    // "B" has the name of the feature here with id "A", and the manifest also has "A" itself.
+    const current = [makeFeature("A", { name: "Alpha" })];
+    const plan = planImport(manifest([makeFeature("B", { name: "Alpha" }), makeFeature("A", { name: "Alpha" })]), current, "merge");
+    expect(plan.unchanged).toBe(1);
+    expect(plan.added.map(f => f.id)).toEqual(["B"]);
+    expect(plan.features.map(f => f.id)).toEqual(["A", "B"]);
+  });
+
+  it("leaves features that differ alone when only adding", () => {
+    const plan = planImport(manifest([{ ...gps, enabled: true }, sonar]), [gps], "add");
+    expect(plan.changed).toHaveLength(1);
+    expect(plan.features).toEqual([gps, sonar]);
+    expect(describeImport(plan)).toBe("Add 1: Sonar\nKeep as is 1: GPS (enabled)\nUnchanged 0");
+  });
+
+  it("drops features the manifest does not have when replacing", () => {
+    const plan = planImport(manifest([sonar]), [gps, { ...sonar, addedAt: "2026-02-01T00:00:00.000Z" }], "replace");
+    expect(plan.removed).toEqual([gps]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.features.map(f => f.id)).toEqual(["sonar"]);
+  });
+
+  it("reports the rules the result would break", () => {
+    const saver = makeFeature("saver", { name: "Power Saver", enabled: true, conflictsWith: ["gps"] });
+    const plan = planImport(manifest([{ ...gps, enabled: true }]), [gps, saver], "merge");
+    expect(plan.problems).toEqual(["GPS conflicts with Power Saver."]);
+    expect(describeImport(plan)).toContain("Cannot import: GPS conflicts with Power Saver.");
+  });
+});
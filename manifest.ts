@@ -0,0 +1,180 @@
+import * as FileSystem from "expo-file-system";
+import { z } from "zod";
+import type { Feature } from "@/context/AppContext";
+import { featureSchema } from "@/lib/local-store";
+import { ruleViolations } from "@/lib/features";
+import { documentFolder, describeFile, listJsonFiles, StoredFile } from "@/lib/files";
+
+const MANIFEST_FORMAT = "rubel-engine-features";
+const MANIFEST_VERSION = 1;
+
+/** A shareable feature set: definitions, on/off state and settings, without any logs. */
+export interface FeatureManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  exportedAt: string;
+  features: Feature[];
+}
+
+const manifestSchema = z.object({
+  format: z.literal(MANIFEST_FORMAT),
+  version: z.number().int().max(MANIFEST_VERSION, "Manifest was made by a newer version of the app"),
+  exportedAt: z.string(),
+  features: z.array(featureSchema).superRefine((features, ctx) => {
+    const seen = new Set<string>();
+    features.forEach((f, i) => {
+      if (seen.has(f.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, "id"], message: `Duplicate feature id ${f.id}` });
+      seen.add(f.id);
+    });
+  }),
+});
+
+/**
+ * What importing does with the manifest: `add` only brings in features that
+ * are not here yet, `merge` also updates the ones that differ, and `replace`
+ * makes the feature list exactly the manifest's.
+ */
+export type ImportStrategy = "add" | "merge" | "replace";
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ["add", "merge", "replace"];
+
+/** Fields compared between a feature here and its counterpart in a manifest. */
+const COMPARED_FIELDS = ["name", "description", "category", "enabled", "requires", "conflictsWith", "params", "config"] as const;
+
+export interface ImportChange {
+  current: Feature;
+  incoming: Feature;
+  fields: string[];
+}
+
+export interface ImportPlan {
+  strategy: ImportStrategy;
+  exportedAt: string;
+  added: Feature[];
+  /** Features that differ from the manifest; `add` reports them but leaves them alone. */
+  changed: ImportChange[];
+  /** Features a `replace` drops because the manifest does not have them. */
+  removed: Feature[];
+  unchanged: number;
+  /** The feature list after the import. */
+  features: Feature[];
+  /** Requirements and conflicts the result would break; the import is refused while there are any. */
+  problems: string[];
+}
+
+export type ManifestFile = StoredFile;
+
+/** Writes the features to a new manifest in the manifests folder. */
+export async function exportManifest(features: Feature[]): Promise<ManifestFile> {
+  const exportedAt = new Date().toISOString();
+  const manifest: FeatureManifest = { format: MANIFEST_FORMAT, version: MANIFEST_VERSION, exportedAt, features };
+  const uri = `${await documentFolder("manifests")}features-${exportedAt.slice(0, 19).replace(/:/g, "-")}.json`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(manifest, null, 2));
+  return describeFile(uri);
+}
+
+/** Manifests exported on this device, newest first. */
+export async function listManifests(): Promise<ManifestFile[]> {
+  return listJsonFiles(await documentFolder("manifests"));
+}
+
+/** Finds an exported manifest by file name, with or without `.json`. */
+export async function findManifest(name: string): Promise<ManifestFile | undefined> {
+  const file = name.endsWith(".json") ? name : `${name}.json`;
+  return (await listManifests()).find(m => m.name === file);
+}
+
+/** Reads and validates a manifest; throws with a readable message when it is not one. */
+export async function readManifest(uri: string): Promise<FeatureManifest> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await FileSystem.readAsStringAsync(uri));
+  } catch (_) {
+    throw new Error("Not a feature manifest: it does not contain JSON.");
+  }
+  const result = manifestSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid manifest: ${issue.path.length ? `${issue.path.join(".")}: ` : ""}${issue.message}`);
+  }
+  return result.data as FeatureManifest;
+}
+
+function differences(current: Feature, incoming: Feature): string[] {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  return COMPARED_FIELDS.filter(field => !same(current[field], incoming[field]));
+}
+
+/**
+ * Works out what importing `manifest` over `current` would change, without
+ * changing anything. Features are matched by id, then by name, so a custom
+ * feature made separately on two devices is not imported twice; matched
+ * features keep the id they have here, and references to them are rewritten.
+ * Every feature here matches at most one in the manifest.
+ */
+export function planImport(manifest: FeatureManifest, current: Feature[], strategy: ImportStrategy): ImportPlan {
+  // By manifest id. All ids are matched before any name, so that a name cannot claim a feature another entry has the id of.
+  const matches = new Map<string, Feature>();
+  const byId = new Map(current.map(f => [f.id, f]));
+  for (const incoming of manifest.features) {
+    const here = byId.get(incoming.id);
+    if (here) matches.set(incoming.id, here);
+  }
+  const claimed = new Set([...matches.values()].map(f => f.id));
+  for (const incoming of manifest.features) {
+    if (matches.has(incoming.id)) continue;
+    const here = current.find(f => !claimed.has(f.id) && f.name.toLowerCase() === incoming.name.toLowerCase());
+    if (!here) continue;
+    matches.set(incoming.id, here);
+    claimed.add(here.id);
+  }
+  // An entry without a match keeps its id, which no feature here has.
+  const local = (id: string) => matches.get(id)?.id ?? id;
+
+  const plan: ImportPlan = { strategy, exportedAt: manifest.exportedAt, added: [], changed: [], removed: [], unchanged: 0, features: [], problems: [] };
+  const next = new Map<string, Feature>();
+  for (const entry of manifest.features) {
+    const feature = {
+      ...entry,
+      id: local(entry.id),
+      ...(entry.requires && { requires: entry.requires.map(local) }),
+      ...(entry.conflictsWith && { conflictsWith: entry.conflictsWith.map(local) }),
+    };
+    const here = matches.get(entry.id);
+    if (!here) {
+      plan.added.push(feature);
+      next.set(feature.id, feature);
+      continue;
+    }
+    const fields = differences(here, feature);
+    if (fields.length === 0) {
+      plan.unchanged++;
+      next.set(here.id, here);
+    } else {
+      plan.changed.push({ current: here, incoming: feature, fields });
+      next.set(here.id, strategy === "add" ? here : { ...feature, addedAt: here.addedAt });
+    }
+  }
+
+  if (strategy === "replace") {
+    plan.removed = current.filter(f => !claimed.has(f.id));
+    plan.features = [...next.values()];
+  } else {
+    plan.features = [...current.map(f => next.get(f.id) ?? f), ...plan.added];
+  }
+  plan.problems = ruleViolations(plan.features);
+  return plan;
+}
+
+/** A few lines for previews, e.g. "Add 2: Night Vision, Sonar". */
+export function describeImport(plan: ImportPlan): string {
+  const names = (features: Feature[]) => features.map(f => f.name).join(", ");
+  const lines = [
+    `Add ${plan.added.length}${plan.added.length ? `: ${names(plan.added)}` : ""}`,
+    `${plan.strategy === "add" ? "Keep as is" : "Update"} ${plan.changed.length}${plan.changed.length ? `: ${plan.changed.map(c => `${c.current.name} (${c.fields.join(", ")})`).join(", ")}` : ""}`,
+    `Unchanged ${plan.unchanged}`,
+  ];
+  if (plan.strategy === "replace") lines.push(`Remove ${plan.removed.length}${plan.removed.length ? `: ${names(plan.removed)}` : ""}`);
+  if (plan.problems.length) lines.push(`Cannot import: ${plan.problems.join(" ")}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,16 @@
+import type { NetInfoState } from "@react-native-community/netinfo";
+import type { NetworkEvent } from "@/context/AppContext";
+
+/** Connected and not known to lack internet access; reachability is null until NetInfo has checked. */
+export function isReachable(state: NetInfoState): boolean {
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+/** One line for `status` and the network card, e.g. "online (wifi) since 10:42". */
+export function describeConnectivity(watching: boolean, isOnline: boolean, events: NetworkEvent[]): string {
+  if (!watching) return "not monitored (Network Watch is off)";
+  const last = events[0];
+  if (!last) return isOnline ? "online" : "offline";
+  const since = new Date(last.at).toLocaleString();
+  return last.online ? `online (${last.type}) since ${since}` : `offline since ${since}`;
+}
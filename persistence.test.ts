@@ -0,0 +1,24 @@
+import { commitKeys } from "@/lib/local-store";
+import { WriteQueue } from "@/lib/persistence";
+
+jest.mock("@/lib/local-store", () => ({ commitKeys: jest.fn(async () => {}) }));
+jest.mock("@/lib/log-store", () => ({ applyLogOps: jest.fn(async () => {}) }));
+
+describe("WriteQueue", () => {
+  beforeEach(() => jest.mocked(commitKeys).mockClear());
+
+  it("drops changes while suspended and takes them again after resume", async () => {
+    const queue = new WriteQueue();
+    queue.set("aliases", { ll: "list" });
+    queue.suspend();
+    queue.set("aliases", {});
+    await queue.flush();
+    expect(commitKeys).not.toHaveBeenCalled();
+    expect(queue.getStatus().pending).toBe(false);
+
+    queue.resume();
+    queue.set("aliases", { ls: "list" });
+    await queue.flush();
+    expect(commitKeys).toHaveBeenCalledWith({ aliases: { ls: "list" } });
+  });
+});
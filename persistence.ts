@@ -0,0 +1,132 @@
+import { commitKeys, StoredState, StorageKey } from "@/lib/local-store";
+import { applyLogOps, LogOp } from "@/lib/log-store";
+
+/** How long writes are collected before they are flushed together. */
+export const FLUSH_DELAY = 500;
+/** Delay before a failed flush is tried again. */
+export const RETRY_DELAY = 5000;
+
+export interface SaveStatus {
+  /** Changes that have not reached storage yet. */
+  pending: boolean;
+  /** Why the last flush failed; cleared by the next successful one. */
+  error: string | null;
+}
+
+type Listener = (status: SaveStatus) => void;
+
+/**
+ * Collects changes to persisted keys and log writes and flushes them together
+ * after `FLUSH_DELAY`. Only the latest value of each key is written, and all
+ * dirty keys of a flush are committed atomically with `commitKeys` before the
+ * queued log operations are applied in one transaction. A failed flush keeps
+ * its changes, behind anything written since, and is retried. While
+ * suspended, changes are dropped instead of queued.
+ */
+export class WriteQueue {
+  private values: Partial<StoredState> = {};
+  private logOps: LogOp[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private listeners = new Set<Listener>();
+  private status: SaveStatus = { pending: false, error: null };
+  private suspended = false;
+
+  set<K extends StorageKey>(key: K, value: StoredState[K]): void {
+    if (this.suspended) return;
+    this.values[key] = value;
+    this.schedule(FLUSH_DELAY);
+  }
+
+  log(op: LogOp): void {
+    if (this.suspended) return;
+    this.logOps.push(op);
+    this.schedule(FLUSH_DELAY);
+  }
+
+  /** Writes everything queued now; resolves once it is stored or the attempt failed. */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Wait for a flush already in progress so writes land in order.
+    while (this.running) await this.running;
+    if (!this.hasChanges()) return;
+    this.running = this.write().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Stops taking changes, e.g. while the vault is locked and the stores are
+   * reset to defaults that must not overwrite what is saved. Flush first:
+   * anything still queued is dropped.
+   */
+  suspend(): void {
+    this.suspended = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.values = {};
+    this.logOps = [];
+    this.setStatus({ pending: false, error: null });
+  }
+
+  resume(): void {
+    this.suspended = false;
+  }
+
+  getStatus(): SaveStatus {
+    return this.status;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async write(): Promise<void> {
+    const values = this.values;
+    const ops = this.logOps;
+    this.values = {};
+    this.logOps = [];
+    let stored = false;
+    try {
+      await commitKeys(values);
+      stored = true;
+      await applyLogOps(ops);
+      this.setStatus({ pending: this.hasChanges(), error: null });
+    } catch (e) {
+      // Newer values win over the ones that failed; log operations must keep their order.
+      if (!stored) this.values = { ...values, ...this.values };
+      this.logOps = [...ops, ...this.logOps];
+      this.setStatus({ pending: true, error: e instanceof Error ? e.message : String(e) });
+      this.schedule(RETRY_DELAY);
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (!this.status.pending) this.setStatus({ ...this.status, pending: true });
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private hasChanges(): boolean {
+    return Object.keys(this.values).length > 0 || this.logOps.length > 0;
+  }
+
+  private setStatus(status: SaveStatus): void {
+    this.status = status;
+    this.listeners.forEach(l => l(status));
+  }
+}
+
+export const writeQueue = new WriteQueue();
@@ -0,0 +1,88 @@
+import type { FeatureProfile } from "@/context/AppContext";
+import { registry, Row, Column } from "@/lib/commands";
+import { diffProfile, describeChange, matchesProfile } from "@/lib/profiles";
+
+function describeChanges(lines: string[]): string {
+  return lines.map(line => `  ${line}`).join("\n");
+}
+
+registry.register({
+  name: "profile",
+  summary: "save and switch between sets of feature states",
+  description: 'A profile remembers which features are on and their settings: profile save "field survey", then profile apply "field survey".',
+  subcommands: [
+    {
+      name: "save",
+      args: [{ name: "name", rest: true }],
+      summary: "save the current feature states, replacing a profile with the same name",
+      handler: ({ name }, { profiles, actions }) => {
+        const trimmed = (name as string).trim();
+        if (!trimmed) return { success: false, message: "A profile needs a name." };
+        // Reuse the stored spelling so that saving "Indoor" over "indoor" updates it instead of adding a second one.
+        const existing = profiles.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+        const profile = actions.saveProfile(existing?.name ?? trimmed);
+        const on = profile.features.filter(f => f.enabled).length;
+        return { success: true, message: `Profile ${existing ? "updated" : "saved"}: ${profile.name} (${on} of ${profile.features.length} features on)` };
+      },
+    },
+    {
+      name: "apply",
+      aliases: ["use"],
+      args: [{ name: "profile", type: "profile", rest: true }],
+      summary: "switch the features to a saved profile",
+      handler: ({ profile }, { actions }) => {
+        const p = profile as FeatureProfile;
+        const plan = actions.applyProfile(p.id);
+        if (plan.blocked) return { success: false, message: `Cannot apply ${p.name}: ${plan.blocked}` };
+        if (plan.changes.length === 0) return { success: true, message: `Profile ${p.name} applied; nothing changed.` };
+        return { success: true, message: `Profile ${p.name} applied:\n${describeChanges(plan.changes.map(describeChange))}` };
+      },
+    },
+    {
+      name: "list",
+      aliases: ["ls"],
+      summary: "list saved profiles",
+      handler: (_args, { profiles, activeProfile, features }) => {
+        const data: Row[] = profiles.map(p => ({
+          name: p.name,
+          on: p.features.filter(f => f.enabled).length,
+          active: p.id === activeProfile,
+          modified: p.id === activeProfile && !matchesProfile(p, features),
+          updated: p.updatedAt,
+        }));
+        const format = (r: Row) => `  ${r.active ? "*" : " "} ${r.name} — ${r.on} on${r.modified ? " (modified since applied)" : ""}`;
+        if (data.length === 0) return { success: true, message: "No profiles saved.", data, format };
+        const columns: Column[] = [
+          { key: "name" },
+          { key: "on", type: "number" },
+          { key: "active", type: "boolean" },
+          { key: "modified", type: "boolean" },
+          { key: "updated", type: "time" },
+        ];
+        return { success: true, message: `Profiles (${data.length}):\n${data.map(format).join("\n")}`, data, format, output: { kind: "table", columns, rows: data } };
+      },
+    },
+    {
+      name: "diff",
+      args: [{ name: "profile", type: "profile", rest: true }],
+      summary: "show what applying a profile would change",
+      handler: ({ profile }, { features }) => {
+        const p = profile as FeatureProfile;
+        const changes = diffProfile(p, features);
+        if (changes.length === 0) return { success: true, message: `Features match profile ${p.name}.` };
+        const data: Row[] = changes.map(c => ({ change: describeChange(c) }));
+        return { success: true, message: `Applying ${p.name} would:\n${describeChanges(changes.map(describeChange))}`, data, format: r => `  ${r.change}` };
+      },
+    },
+    {
+      name: "delete",
+      aliases: ["rm"],
+      args: [{ name: "profile", type: "profile", rest: true }],
+      summary: "delete a profile",
+      handler: ({ profile }, { actions }) => {
+        actions.deleteProfile((profile as FeatureProfile).id);
+        return { success: true, message: `Profile deleted: ${(profile as FeatureProfile).name}` };
+      },
+    },
+  ],
+});
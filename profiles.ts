@@ -0,0 +1,75 @@
+import type { Feature, FeatureProfile, ProfileEntry, ConfigValue } from "@/context/AppContext";
+import { configValue, formatConfigValue } from "@/lib/features";
+
+export type ProfileChange =
+  | { kind: "enable" | "disable"; feature: Feature }
+  | { kind: "config"; feature: Feature; key: string; from: ConfigValue; to: ConfigValue }
+  /** The profile has a feature that has since been removed; it is skipped. */
+  | { kind: "missing"; id: string };
+
+/** What applying a profile changes; nothing changes when `blocked` is set. */
+export interface ProfilePlan {
+  changes: ProfileChange[];
+  blocked?: string;
+}
+
+/** The state of every feature, as a profile saves it. Settings left at their default are not stored. */
+export function captureProfile(features: Feature[]): ProfileEntry[] {
+  return features.map(f => (f.config && Object.keys(f.config).length ? { id: f.id, enabled: f.enabled, config: { ...f.config } } : { id: f.id, enabled: f.enabled }));
+}
+
+/**
+ * `features` with the saved states put back. Features the profile does not
+ * know keep their state, and saved settings for parameters a feature no
+ * longer has are dropped.
+ */
+export function applyEntries(entries: ProfileEntry[], features: Feature[]): Feature[] {
+  const byId = new Map(entries.map(e => [e.id, e]));
+  return features.map(f => {
+    const entry = byId.get(f.id);
+    if (!entry) return f;
+    if (!f.params?.length) return { ...f, enabled: entry.enabled };
+    const keys = new Set(f.params?.map(p => p.key));
+    const config = Object.fromEntries(Object.entries(entry.config ?? {}).filter(([key]) => keys.has(key)));
+    return { ...f, enabled: entry.enabled, config };
+  });
+}
+
+/** Everything applying `profile` to `features` would change, in feature order. */
+export function diffProfile(profile: FeatureProfile, features: Feature[]): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+  const next = new Map(applyEntries(profile.features, features).map(f => [f.id, f]));
+  for (const feature of features) {
+    const target = next.get(feature.id)!;
+    if (target.enabled !== feature.enabled) changes.push({ kind: target.enabled ? "enable" : "disable", feature });
+    for (const param of feature.params ?? []) {
+      const from = configValue(feature, param.key)!;
+      const to = configValue(target, param.key)!;
+      if (from !== to) changes.push({ kind: "config", feature, key: param.key, from, to });
+    }
+  }
+  for (const entry of profile.features) {
+    if (!features.some(f => f.id === entry.id)) changes.push({ kind: "missing", id: entry.id });
+  }
+  return changes;
+}
+
+/** Whether `features` are exactly as the profile left them; features it does not know are ignored. */
+export function matchesProfile(profile: FeatureProfile, features: Feature[]): boolean {
+  return diffProfile(profile, features).every(c => c.kind === "missing");
+}
+
+export function describeChange(change: ProfileChange): string {
+  switch (change.kind) {
+    case "enable":
+      return `Enable ${change.feature.name}`;
+    case "disable":
+      return `Disable ${change.feature.name}`;
+    case "config": {
+      const param = change.feature.params!.find(p => p.key === change.key)!;
+      return `${change.feature.name} ${param.label}: ${formatConfigValue(param, change.from)} → ${formatConfigValue(param, change.to)}`;
+    }
+    case "missing":
+      return `Skip ${change.id}, which no longer exists`;
+  }
+}
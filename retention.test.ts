@@ -0,0 +1,79 @@
+import { getInfoAsync } from "expo-file-system";
+import type { GPSLog, PhotoLog } from "@/context/AppContext";
+import { queryLogs, queryExpiredLogs } from "@/lib/log-store";
+import { planPrune, describePolicy } from "@/lib/retention";
+
+jest.mock("@/lib/log-store", () => ({ queryLogs: jest.fn(), queryExpiredLogs: jest.fn() }));
+jest.mock("expo-file-system", () => ({ getInfoAsync: jest.fn(async (uri: string) => ({ uri, exists: true, size: 1000 })) }));
+
+const mockQueryLogs = queryLogs as jest.Mock;
+const mockQueryExpired = queryExpiredLogs as jest.Mock;
+
+const NOW = new Date("2026-03-10T00:00:00.000Z");
+
+function gps(id: string, day: number): GPSLog {
+  return { id, lat: 0, lng: 0, accuracy: 5, timestamp: `2026-03-${String(day).padStart(2, "0")}T00:00:00.000Z` };
+}
+
+function photo(id: string, day: number): PhotoLog {
+  return { id, uri: `file:///photos/${id}.jpg`, timestamp: `2026-03-${String(day).padStart(2, "0")}T00:00:00.000Z` };
+}
+
+const size = (log: object) => JSON.stringify(log).length;
+
+beforeEach(() => {
+  mockQueryLogs.mockReset().mockResolvedValue([]);
+  mockQueryExpired.mockReset().mockResolvedValue([]);
+  (getInfoAsync as jest.Mock).mockClear();
+});
+
+describe("planPrune", () => {
+  it("leaves count and age limits to the database", async () => {
+    const expired = [gps("G2", 2), gps("G1", 1)];
+    mockQueryExpired.mockResolvedValue(expired);
+    const result = await planPrune("gps", { maxCount: 100, maxAge: 7 * 86_400_000 }, NOW);
+    expect(mockQueryExpired).toHaveBeenCalledWith("gps", { keep: 100, olderThan: "2026-03-03T00:00:00.000Z" });
+    expect(mockQueryLogs).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      kind: "gps",
+      ids: ["G2", "G1"],
+      bytes: size(expired[0]) + size(expired[1]),
+      newest: expired[0].timestamp,
+      oldest: expired[1].timestamp,
+      files: [],
+    });
+  });
+
+  it("only looks at the files of photos it prunes when there is no size limit", async () => {
+    mockQueryExpired.mockResolvedValue([photo("P1", 1)]);
+    const result = await planPrune("photo", { maxCount: 10 }, NOW);
+    expect(getInfoAsync).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ ids: ["P1"], bytes: size(photo("P1", 1)) + 1000, files: ["file:///photos/P1.jpg"] });
+  });
+
+  it("keeps the newest logs that fit a size limit among those the other limits keep", async () => {
+    const recent = [photo("P5", 9), photo("P4", 8), photo("P3", 7)];
+    mockQueryLogs.mockResolvedValue(recent);
+    mockQueryExpired.mockResolvedValue([photo("P1", 1)]);
+    const each = size(recent[0]) + 1000;
+    const result = await planPrune("photo", { maxCount: 3, maxAge: 7 * 86_400_000, maxSize: each * 2 }, NOW);
+    expect(mockQueryLogs).toHaveBeenCalledWith("photo", { from: "2026-03-03T00:00:00.000Z", limit: 3 });
+    expect(result.ids).toEqual(["P3", "P1"]);
+    expect(result.files).toEqual(["file:///photos/P3.jpg", "file:///photos/P1.jpg"]);
+  });
+
+  it("reads every log for a size limit alone", async () => {
+    mockQueryLogs.mockResolvedValue([gps("G1", 1)]);
+    const result = await planPrune("gps", { maxSize: 1 }, NOW);
+    expect(mockQueryLogs).toHaveBeenCalledWith("gps", { from: undefined, limit: -1 });
+    expect(mockQueryExpired).toHaveBeenCalledWith("gps", { keep: undefined, olderThan: undefined });
+    expect(result.ids).toEqual(["G1"]);
+  });
+});
+
+describe("describePolicy", () => {
+  it("lists each limit", () => {
+    expect(describePolicy({ maxCount: 500, maxAge: 30 * 86_400_000, maxSize: 5 * 1024 * 1024 })).toBe("Keep newest 500, 30 days, 5.0 MB");
+    expect(describePolicy({})).toBe("Keep everything");
+  });
+});
@@ -0,0 +1,92 @@
+import * as FileSystem from "expo-file-system";
+import { queryLogs, queryExpiredLogs, LogKind, LogRecords } from "@/lib/log-store";
+import { formatBytes } from "@/lib/command-parser";
+
+/** Limits for one kind of log; a log is pruned as soon as it breaks any of them. */
+export interface RetentionPolicy {
+  /** Keep at most this many of the newest logs. */
+  maxCount?: number;
+  /** Drop logs older than this many milliseconds. */
+  maxAge?: number;
+  /** Keep the newest logs up to this many bytes, photo files included. */
+  maxSize?: number;
+}
+
+export type RetentionPolicies = Partial<Record<LogKind, RetentionPolicy>>;
+
+export const LOG_KINDS: LogKind[] = ["gps", "photo", "command"];
+
+export const LOG_KIND_LABELS: Record<LogKind, string> = { gps: "GPS Logs", photo: "Photos", command: "Command Logs" };
+
+/** What pruning one kind of log removes, or would remove in a preview. */
+export interface PruneResult {
+  kind: LogKind;
+  ids: string[];
+  bytes: number;
+  /** Time range of the pruned logs. */
+  oldest?: string;
+  newest?: string;
+  /** Photo files to delete with their logs. */
+  files: string[];
+}
+
+/** Approximate stored size of a log: its JSON plus the photo file it points at. */
+async function sizeOf(kind: LogKind, record: LogRecords[LogKind]): Promise<number> {
+  let size = JSON.stringify(record).length;
+  if (kind === "photo") {
+    const info = await FileSystem.getInfoAsync((record as LogRecords["photo"]).uri);
+    if (info.exists) size += info.size;
+  }
+  return size;
+}
+
+export function hasLimits(policy: RetentionPolicy | undefined): policy is RetentionPolicy {
+  return !!policy && (policy.maxCount !== undefined || policy.maxAge !== undefined || policy.maxSize !== undefined);
+}
+
+/** Finds the logs of one kind that break its policy, without deleting anything. */
+export async function planPrune(kind: LogKind, policy: RetentionPolicy, now = new Date()): Promise<PruneResult> {
+  const result: PruneResult = { kind, ids: [], bytes: 0, files: [] };
+  const cutoff = policy.maxAge !== undefined ? new Date(now.getTime() - policy.maxAge).toISOString() : undefined;
+  // Logs are added newest first.
+  const prune = (log: LogRecords[LogKind], size: number) => {
+    result.ids.push(log.id);
+    result.bytes += size;
+    result.newest ??= log.timestamp;
+    result.oldest = log.timestamp;
+    if (kind === "photo") result.files.push((log as LogRecords["photo"]).uri);
+  };
+
+  if (policy.maxSize !== undefined) {
+    // The newest logs that fit are kept, so this adds up every log the count and age limits keep.
+    let kept = 0;
+    for (const log of await queryLogs(kind, { from: cutoff, limit: policy.maxCount ?? -1 })) {
+      const size = await sizeOf(kind, log);
+      if (kept + size > policy.maxSize) prune(log, size);
+      else kept += size;
+    }
+  }
+  for (const log of await queryExpiredLogs(kind, { keep: policy.maxCount, olderThan: cutoff })) prune(log, await sizeOf(kind, log));
+
+  return result;
+}
+
+export function describePolicy(policy: RetentionPolicy | undefined): string {
+  if (!hasLimits(policy)) return "Keep everything";
+  const parts: string[] = [];
+  if (policy.maxCount !== undefined) parts.push(`newest ${policy.maxCount}`);
+  if (policy.maxAge !== undefined) parts.push(`${Math.round(policy.maxAge / 86_400_000)} days`);
+  if (policy.maxSize !== undefined) parts.push(formatBytes(policy.maxSize));
+  return `Keep ${parts.join(", ")}`;
+}
+
+/** One line per kind, for previews. */
+export function describePrune(results: PruneResult[]): string {
+  const lines = results
+    .filter(r => r.ids.length > 0)
+    .map(r => {
+      const range = r.oldest && r.newest ? ` from ${new Date(r.oldest).toLocaleDateString()} to ${new Date(r.newest).toLocaleDateString()}` : "";
+      return `${LOG_KIND_LABELS[r.kind]}: ${r.ids.length} (${formatBytes(r.bytes)})${range}`;
+    });
+  return lines.length ? lines.join("\n") : "Nothing to prune.";
+}
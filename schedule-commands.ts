@@ -0,0 +1,101 @@
+import { registry, Row, Column } from "@/lib/commands";
+import { tokenize, formatDuration } from "@/lib/command-parser";
+import { parseSchedule, nextRun, dailyAt, describeRule } from "@/lib/scheduler";
+import { shortIds, matchId } from "@/lib/ids";
+
+const SCHEDULE_COLUMNS: Column[] = [
+  { key: "id" },
+  { key: "when" },
+  { key: "command" },
+  { key: "next", type: "time" },
+  { key: "last", type: "time" },
+];
+
+/** How often a stored spec runs, or why it cannot be read, so that one bad spec does not hide the others. */
+function describeSpec(spec: string): string {
+  try {
+    return describeRule(parseSchedule(spec));
+  } catch (e) {
+    return `invalid: ${(e as Error).message}`;
+  }
+}
+
+const formatScheduleRow = (r: Row) =>
+  `  ${r.id}  ${r.when} → ${r.command}\n      next ${new Date(String(r.next)).toLocaleString()}${r.last ? `, last ${new Date(String(r.last)).toLocaleString()}` : ""}`;
+
+registry.register({
+  name: "schedule",
+  summary: "run commands on a schedule",
+  description: "Schedules run in the app and write their results to the command log. Missed runs while the app was closed run once on the next launch.",
+  subcommands: [
+    {
+      name: "add",
+      args: [{ name: "command", rest: true, raw: true }],
+      options: [
+        { name: "every", type: "duration", summary: "interval, e.g. 30m, 12h, 7d" },
+        { name: "at", summary: "daily at HH:MM" },
+        { name: "cron", summary: "5-field cron expression, quoted" },
+      ],
+      summary: "schedule a command",
+      description: 'Schedule a command: schedule add --every 7d clear-gps, schedule add --at 18:00 sync-email, or schedule add --cron "0 9 * * 1-5" status. Put the schedule options first: everything from the command on, options included, is the command.',
+      handler: (args, { aliases, schedules, actions }) => {
+        const command = args.command as string;
+        const every = args.every as number | undefined;
+        const at = args.at as string | undefined;
+        const cron = args.cron as string | undefined;
+        const given = [every, at, cron].filter(v => v !== undefined).length;
+        if (given !== 1) return { success: false, message: "Give exactly one of --every, --at or --cron." };
+
+        let spec: string;
+        try {
+          spec = every !== undefined ? `every ${formatDuration(every)}` : at !== undefined ? dailyAt(at) : cron!;
+          const rule = parseSchedule(spec);
+          const name = tokenize(command)[0]?.value;
+          if (!name || (!registry.lookup([name]) && aliases[name] === undefined)) return { success: false, message: `Unknown command: '${name ?? ""}'` };
+          const next = nextRun(rule, new Date());
+          const entry = actions.addSchedule(spec, command, next.toISOString());
+          const id = shortIds([...schedules.map(s => s.id), entry.id]).get(entry.id);
+          return { success: true, message: `Scheduled ${id}: ${command} (${describeRule(rule)})\n  next run ${next.toLocaleString()}` };
+        } catch (e) {
+          return { success: false, message: (e as Error).message };
+        }
+      },
+    },
+    {
+      name: "list",
+      aliases: ["ls"],
+      summary: "list scheduled commands",
+      handler: (_args, { schedules }) => {
+        const short = shortIds(schedules.map(s => s.id));
+        const data: Row[] = schedules.map(s => ({
+          id: short.get(s.id)!,
+          when: describeSpec(s.spec),
+          command: s.command,
+          next: s.nextRunAt,
+          last: s.lastRunAt ?? "",
+        }));
+        if (data.length === 0) return { success: true, message: "No scheduled commands.", data, format: formatScheduleRow };
+        return {
+          success: true,
+          message: `Schedules (${data.length}):\n${data.map(formatScheduleRow).join("\n")}`,
+          data,
+          format: formatScheduleRow,
+          output: { kind: "table", columns: SCHEDULE_COLUMNS, rows: data },
+        };
+      },
+    },
+    {
+      name: "remove",
+      aliases: ["rm"],
+      args: [{ name: "id" }],
+      summary: "remove a scheduled command by id or id prefix",
+      handler: ({ id }, { schedules, actions }) => {
+        const matches = matchId(schedules, id as string);
+        if (matches.length === 0) return { success: false, message: `Schedule not found: ${id}` };
+        if (matches.length > 1) return { success: false, message: `Ambiguous id '${id}' matches ${matches.length} schedules.` };
+        actions.removeSchedule(matches[0].id);
+        return { success: true, message: `Unscheduled: ${matches[0].command}` };
+      },
+    },
+  ],
+});
@@ -0,0 +1,55 @@
+import type { Schedule } from "@/context/AppContext";
+import { registry } from "@/lib/commands";
+import { parseSchedule, nextRun, dailyAt, describeRule } from "@/lib/scheduler";
+import { makeContext, mockActions } from "@/lib/test-utils";
+import "@/lib/builtin-commands";
+import "@/lib/schedule-commands";
+
+describe("parseSchedule", () => {
+  it("reads intervals and cron expressions", () => {
+    expect(parseSchedule("every 1h30m")).toEqual({ kind: "interval", ms: 5_400_000 });
+    expect(describeRule(parseSchedule(" 0 9 * * 1-5 "))).toBe("cron 0 9 * * 1-5");
+  });
+
+  it("rejects invalid specs with a readable message", () => {
+    expect(() => parseSchedule("every soon")).toThrow("Invalid interval 'soon'");
+    expect(() => parseSchedule("every 10s")).toThrow("Interval must be at least 1m");
+    expect(() => parseSchedule("0 9 * *")).toThrow("Cron expressions need 5 fields");
+    expect(() => parseSchedule("0 25 * * *")).toThrow("Out of range hour field '25' (0-23)");
+  });
+});
+
+describe("nextRun", () => {
+  it("adds the interval", () => {
+    expect(nextRun(parseSchedule("every 30m"), new Date(2026, 2, 10, 8, 0)).getTime()).toBe(new Date(2026, 2, 10, 8, 30).getTime());
+  });
+
+  it("finds the next matching minute, strictly after the given time", () => {
+    const weekdays = parseSchedule("0 9 * * 1-5");
+    // 2026-03-13 is a Friday.
+    expect(nextRun(weekdays, new Date(2026, 2, 13, 9, 0))).toEqual(new Date(2026, 2, 16, 9, 0));
+    expect(nextRun(parseSchedule(dailyAt("18:05")), new Date(2026, 2, 13, 12, 0))).toEqual(new Date(2026, 2, 13, 18, 5));
+  });
+
+  it("gives up on expressions that never fire", () => {
+    expect(() => nextRun(parseSchedule("0 0 31 2 *"), new Date(2026, 0, 1))).toThrow("never fires");
+  });
+});
+
+describe("schedule add", () => {
+  it("keeps options after the command for the command", () => {
+    const actions = mockActions({ addSchedule: jest.fn((spec: string, command: string, nextRunAt: string) => ({ id: "s00001", spec, command, nextRunAt, createdAt: nextRunAt })) });
+    const result = registry.execute("schedule add --every 5m disable f001 --cascade", makeContext({ actions }));
+    expect(result.success).toBe(true);
+    expect(actions.addSchedule).toHaveBeenCalledWith("every 5m", "disable f001 --cascade", expect.any(String));
+  });
+});
+
+describe("schedule list", () => {
+  it("lists schedules whose spec cannot be read alongside the others", () => {
+    const schedule = (id: string, spec: string): Schedule => ({ id, spec, command: "status", createdAt: "2026-01-01T00:00:00.000Z", nextRunAt: "2026-03-01T00:00:00.000Z" });
+    const result = registry.execute("schedule list", makeContext({ schedules: [schedule("s00001", "0 9 * * *"), schedule("s00002", "every 1s")] }));
+    expect(result.success).toBe(true);
+    expect(result.data?.map(r => r.when)).toEqual(["cron 0 9 * * *", "invalid: Interval must be at least 1m"]);
+  });
+});
@@ -0,0 +1,121 @@
+import { parseDuration, formatDuration } from "@/lib/command-parser";
+
+export type ScheduleRule =
+  | { kind: "interval"; ms: number }
+  | { kind: "cron"; expr: string; fields: CronFields };
+
+interface CronFields {
+  minute: Set<number>;
+  hour: Set<number>;
+  dayOfMonth: Set<number>;
+  month: Set<number>;
+  dayOfWeek: Set<number>;
+  /** Cron matches either day field when both are restricted. */
+  dayOfMonthAny: boolean;
+  dayOfWeekAny: boolean;
+}
+
+const CRON_RANGES: [string, number, number][] = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day of month", 1, 31],
+  ["month", 1, 12],
+  // 0 and 7 are both Sunday.
+  ["day of week", 0, 7],
+];
+
+export const MIN_INTERVAL = 60_000;
+
+function parseCronField(text: string, label: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const m = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`Invalid ${label} field '${part}'`);
+    const step = m[4] ? parseInt(m[4], 10) : 1;
+    let from = min;
+    let to = max;
+    if (m[1] !== "*") {
+      from = parseInt(m[2], 10);
+      to = m[3] !== undefined ? parseInt(m[3], 10) : m[4] ? max : from;
+    }
+    if (step < 1 || from < min || to > max || from > to) throw new Error(`Out of range ${label} field '${part}' (${min}-${max})`);
+    for (let v = from; v <= to; v += step) values.add(label === "day of week" ? v % 7 : v);
+  }
+  return values;
+}
+
+export function parseCron(expr: string): CronFields {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error("Cron expressions need 5 fields: minute hour day-of-month month day-of-week");
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((p, i) => parseCronField(p, ...CRON_RANGES[i]));
+  return { minute, hour, dayOfMonth, month, dayOfWeek, dayOfMonthAny: parts[2] === "*", dayOfWeekAny: parts[4] === "*" };
+}
+
+/**
+ * Parses a stored schedule spec: `every <duration>` or a 5-field cron
+ * expression. Throws with a readable message when the spec is invalid.
+ */
+export function parseSchedule(spec: string): ScheduleRule {
+  const every = /^every\s+(.+)$/i.exec(spec.trim());
+  if (every) {
+    const ms = parseDuration(every[1]);
+    if (ms === null) throw new Error(`Invalid interval '${every[1]}'`);
+    if (ms < MIN_INTERVAL) throw new Error(`Interval must be at least ${formatDuration(MIN_INTERVAL)}`);
+    return { kind: "interval", ms };
+  }
+  return { kind: "cron", expr: spec.trim(), fields: parseCron(spec) };
+}
+
+/** Converts a daily `HH:MM` time to the equivalent cron expression. */
+export function dailyAt(time: string): string {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!m || parseInt(m[1], 10) > 23 || parseInt(m[2], 10) > 59) throw new Error(`Invalid time '${time}' (use HH:MM)`);
+  return `${parseInt(m[2], 10)} ${parseInt(m[1], 10)} * * *`;
+}
+
+function cronDayMatches(f: CronFields, d: Date): boolean {
+  const dom = f.dayOfMonth.has(d.getDate());
+  const dow = f.dayOfWeek.has(d.getDay());
+  if (f.dayOfMonthAny) return dow;
+  if (f.dayOfWeekAny) return dom;
+  return dom || dow;
+}
+
+/** First time strictly after `after` at which the rule fires, in local time. */
+export function nextRun(rule: ScheduleRule, after: Date): Date {
+  if (rule.kind === "interval") return new Date(after.getTime() + rule.ms);
+
+  const f = rule.fields;
+  const d = new Date(after.getTime());
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+
+  // Bounded search: skip whole months, days and hours that cannot match.
+  const limit = after.getTime() + 5 * 366 * 86_400_000;
+  while (d.getTime() <= limit) {
+    if (!f.month.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cronDayMatches(f, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!f.hour.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!f.minute.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  throw new Error(`Cron expression '${rule.expr}' never fires`);
+}
+
+export function describeRule(rule: ScheduleRule): string {
+  return rule.kind === "interval" ? `every ${formatDuration(rule.ms)}` : `cron ${rule.expr}`;
+}
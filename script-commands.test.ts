@@ -0,0 +1,87 @@
+import type { Feature, Script } from "@/context/AppContext";
+import { registry, CommandContext } from "@/lib/commands";
+import { FEATURE, planFeatureChange } from "@/lib/features";
+import { makeContext, makeFeature, mockActions } from "@/lib/test-utils";
+import { aliasStore, featureStore, scriptStore, variableStore } from "@/context/stores";
+import { liveCommandContext } from "@/hooks/useCommandContext";
+import "@/lib/builtin-commands";
+import "@/lib/script-commands";
+
+function script(name: string, steps: string[]): Script {
+  return { id: name, name, steps, createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-01T00:00:00.000Z" };
+}
+
+/** A context whose feature actions change `features`, read back through a getter the way the app's context does. */
+function liveContext(initial: Feature[], scripts: Script[]): CommandContext {
+  let features = initial;
+  const actions = mockActions({
+    setFeatureEnabled: jest.fn((id: string, enabled: boolean, cascade?: boolean) => {
+      const plan = planFeatureChange(features, id, enabled);
+      if (plan.changes.length > 1 && !cascade) return plan;
+      const next = new Map(plan.changes.map(c => [c.feature.id, c.enabled]));
+      features = features.map(f => (next.has(f.id) ? { ...f, enabled: next.get(f.id)! } : f));
+      return plan;
+    }),
+  });
+  const ctx = makeContext({ scripts, emailAddress: "ops@example.com", actions });
+  return Object.defineProperty(ctx, "features", { get: () => features });
+}
+
+describe("script new", () => {
+  it("keeps options after the name as part of the steps", () => {
+    const ctx = makeContext();
+    expect(registry.execute("script new x disable f001 --cascade", ctx).success).toBe(true);
+    expect(ctx.actions.saveScript).toHaveBeenCalledWith("x", ["disable f001 --cascade"]);
+  });
+});
+
+describe("run", () => {
+  it("lets each step see the features earlier steps changed", () => {
+    const ctx = liveContext([makeFeature(FEATURE.emailSync, { name: "Email Sync" })], [script("sync", ["enable f003", "sync-email"])]);
+    const result = registry.execute("run sync", ctx);
+    expect(result).toMatchObject({ success: true, message: "Script sync completed (2 steps)." });
+    expect(ctx.actions.addEmailQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves a feature on when it is enabled twice", () => {
+    const ctx = liveContext([makeFeature("f001")], [script("twice", ["enable f001", "enable f001"])]);
+    expect(registry.execute("run twice", ctx).success).toBe(true);
+    expect(ctx.features[0].enabled).toBe(true);
+    expect(ctx.actions.addCommandLog).toHaveBeenLastCalledWith("twice[2/2] enable f001", "Feature f001 is already enabled.", "success", expect.anything());
+  });
+
+  it("passes --cascade through to the step it belongs to", () => {
+    const features = [makeFeature("f001", { name: "GPS Tracking" }), makeFeature("f006", { name: "Auto GPS Log", requires: ["f001"] })];
+    const ctx = liveContext(features, [script("track", ["enable f006", "enable f006 --cascade"])]);
+    expect(registry.execute("run track", ctx)).toMatchObject({ success: false, message: "Script track stopped at step 1/2: enable f006" });
+    expect(ctx.features.every(f => !f.enabled)).toBe(true);
+
+    const cascading = liveContext(features, [script("track", ["enable f006 --cascade"])]);
+    expect(registry.execute("run track", cascading).success).toBe(true);
+    expect(cascading.features.every(f => f.enabled)).toBe(true);
+  });
+
+  it("stops at the first failing step", () => {
+    const ctx = liveContext([makeFeature("f001")], [script("broken", ["enable f001", "enable nothing", "disable f001"])]);
+    expect(registry.execute("run broken", ctx)).toMatchObject({ success: false, message: "Script broken stopped at step 2/3: enable nothing" });
+    expect(ctx.features[0].enabled).toBe(true);
+  });
+
+  it("lets each step use the aliases and variables earlier steps defined", () => {
+    featureStore.set([makeFeature("f001")]);
+    scriptStore.set([script("setup", ["set home=f001", "alias on=enable", "on $home"])]);
+    const actions = mockActions({
+      setAlias: jest.fn((name: string, value: string) => aliasStore.set(prev => ({ ...prev, [name]: value }))),
+      setVariable: jest.fn((name: string, value: string) => variableStore.set(prev => ({ ...prev, [name]: value }))),
+    });
+    const ctx = liveCommandContext({ history: [], emailAddress: "", isOnline: true, networkEvents: [] }, actions);
+    expect(registry.execute("run setup", ctx)).toMatchObject({ success: true, message: "Script setup completed (3 steps)." });
+    expect(actions.setFeatureEnabled).toHaveBeenCalledWith("f001", true, false);
+  });
+
+  it("refuses scripts that run themselves too deeply", () => {
+    const ctx = liveContext([], [script("loop", ["run loop"])]);
+    expect(registry.execute("run loop", ctx).success).toBe(false);
+    expect(ctx.actions.addCommandLog).toHaveBeenCalledWith("loop[1/1] run loop", "Script nesting too deep (max 5).", "error", expect.anything());
+  });
+});
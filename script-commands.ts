@@ -0,0 +1,106 @@
+import type { Script } from "@/context/AppContext";
+import { registry, CommandResult, Row, Column } from "@/lib/commands";
+import { splitSteps } from "@/lib/command-parser";
+
+const MAX_RUN_DEPTH = 5;
+const SCRIPT_NAME = /^[A-Za-z0-9_-]+$/;
+
+let runDepth = 0;
+
+function describeSteps(steps: string[]): string {
+  return steps.map((step, i) => `  ${i + 1}. ${step}`).join("\n");
+}
+
+function saveSteps(name: string, text: string, save: (name: string, steps: string[]) => void, verb: string): CommandResult {
+  if (!SCRIPT_NAME.test(name)) return { success: false, message: `Invalid script name '${name}'. Use letters, digits, '-' and '_'.` };
+  const steps = splitSteps(text);
+  if (steps.length === 0) return { success: false, message: "A script needs at least one step." };
+  save(name, steps);
+  return { success: true, message: `Script ${verb}: ${name} (${steps.length} step${steps.length === 1 ? "" : "s"})\n${describeSteps(steps)}` };
+}
+
+registry.register({
+  name: "script",
+  summary: "manage saved scripts",
+  description: "Saved scripts are sequences of commands separated by ';'. Quote the steps when they contain '|', or use single quotes inside: script new daily \"add 'Night Vision' 'IR mode'; sync-email\". Options such as --cascade after the name belong to the steps.",
+  subcommands: [
+    {
+      name: "new",
+      aliases: ["create"],
+      args: [{ name: "name" }, { name: "steps", rest: true, raw: true }],
+      summary: "create a script from ';'-separated steps",
+      handler: (args, { scripts, actions }) => {
+        const name = args.name as string;
+        if (scripts.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+          return { success: false, message: `Script already exists: ${name}. Use 'script edit' to change it.` };
+        }
+        return saveSteps(name, args.steps as string, actions.saveScript, "created");
+      },
+    },
+    {
+      name: "edit",
+      args: [{ name: "script", type: "script" }, { name: "steps", rest: true, raw: true }],
+      summary: "replace the steps of a script",
+      handler: ({ script, steps }, { actions }) => saveSteps((script as Script).name, steps as string, actions.saveScript, "updated"),
+    },
+    {
+      name: "list",
+      aliases: ["ls"],
+      summary: "list saved scripts",
+      handler: (_args, { scripts }) => {
+        const data: Row[] = scripts.map(s => ({ name: s.name, steps: s.steps.length, updated: s.updatedAt }));
+        const format = (r: Row) => `  ${r.name} — ${r.steps} step${r.steps === 1 ? "" : "s"}`;
+        if (data.length === 0) return { success: true, message: "No scripts saved.", data, format };
+        const columns: Column[] = [{ key: "name" }, { key: "steps", type: "number" }, { key: "updated", type: "time" }];
+        return { success: true, message: `Scripts (${data.length}):\n${data.map(format).join("\n")}`, data, format, output: { kind: "table", columns, rows: data } };
+      },
+    },
+    {
+      name: "show",
+      args: [{ name: "script", type: "script" }],
+      summary: "show the steps of a script",
+      handler: ({ script }) => {
+        const s = script as Script;
+        const data = s.steps.map((step, i) => ({ step: i + 1, command: step }));
+        const columns: Column[] = [{ key: "step", type: "number" }, { key: "command" }];
+        return { success: true, message: `Script ${s.name}:\n${describeSteps(s.steps)}`, data, output: { kind: "table", columns, rows: data } };
+      },
+    },
+    {
+      name: "delete",
+      aliases: ["rm"],
+      args: [{ name: "script", type: "script" }],
+      summary: "delete a script",
+      handler: ({ script }, { actions }) => {
+        actions.deleteScript((script as Script).name);
+        return { success: true, message: `Script deleted: ${(script as Script).name}` };
+      },
+    },
+  ],
+});
+
+registry.register({
+  name: "run",
+  args: [{ name: "script", type: "script" }],
+  summary: "run a saved script",
+  description: "Run each step of a script in order, logging every step. Stops at the first step that fails.",
+  handler: ({ script }, ctx) => {
+    const s = script as Script;
+    if (runDepth >= MAX_RUN_DEPTH) return { success: false, message: `Script nesting too deep (max ${MAX_RUN_DEPTH}).` };
+
+    runDepth++;
+    try {
+      for (let i = 0; i < s.steps.length; i++) {
+        const step = s.steps[i];
+        const result = registry.execute(step, ctx);
+        ctx.actions.addCommandLog(`${s.name}[${i + 1}/${s.steps.length}] ${step}`, result.message, result.success ? "success" : "error", { source: "script", output: result.output });
+        if (!result.success) {
+          return { success: false, message: `Script ${s.name} stopped at step ${i + 1}/${s.steps.length}: ${step}` };
+        }
+      }
+    } finally {
+      runDepth--;
+    }
+    return { success: true, message: `Script ${s.name} completed (${s.steps.length} step${s.steps.length === 1 ? "" : "s"}).` };
+  },
+});
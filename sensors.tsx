@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useMemo } from "react";
 import {
   View,
   Text,
@@ -8,47 +8,85 @@ import {
   Platform,
   Image,
   FlatList,
+  ActivityIndicator,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { CameraView, useCameraPermissions } from "expo-camera";
 import * as Location from "expo-location";
 import * as Haptics from "expo-haptics";
+import { haptics } from "@/lib/haptics";
 import { Colors } from "@/constants/colors";
-import { useApp } from "@/context/AppContext";
+import { useAppCore } from "@/context/AppContext";
+import { useGpsLogs, usePhotoLogs } from "@/context/stores";
+import { usePagedLogs } from "@/hooks/usePagedLogs";
+import { usePhotoUri } from "@/hooks/usePhotoUri";
+import { useFeature } from "@/hooks/useFeature";
+import { useFeatureToggle } from "@/hooks/useFeatureToggle";
+import { useFeatureConfig } from "@/hooks/useFeatureConfig";
+import { FEATURE } from "@/lib/features";
 
 type Tab = "camera" | "gps";
 
+/** Camera quality with Photo Compression off, and with it on when its quality setting is missing. */
+const PHOTO_QUALITY = { full: 1, compressed: 0.5 };
+
+type Range = "all" | "24h" | "7d";
+
+const RANGES: { key: Range; label: string; ms?: number }[] = [
+  { key: "all", label: "ALL" },
+  { key: "24h", label: "24H", ms: 86_400_000 },
+  { key: "7d", label: "7D", ms: 7 * 86_400_000 },
+];
+
+const isNearEnd = ({ layoutMeasurement, contentOffset, contentSize }: NativeScrollEvent) =>
+  layoutMeasurement.height + contentOffset.y >= contentSize.height - 200;
+
+function PhotoThumb({ uri }: { uri: string }) {
+  const source = usePhotoUri(uri);
+  if (!source) return <View style={styles.photoThumb} />;
+  return <Image source={{ uri: source }} style={styles.photoThumb} />;
+}
+
 export default function SensorsScreen() {
   const insets = useSafeAreaInsets();
-  const { gpsLogs, photoLogs, addGPSLog, addPhotoLog } = useApp();
+  const gpsLogs = useGpsLogs();
+  const photoLogs = usePhotoLogs();
+  const { addGPSLog, addPhotoLog } = useAppCore();
+  const toggleFeature = useFeatureToggle("sensors");
+  const cameraEnabled = useFeature(FEATURE.camera);
+  const gpsEnabled = useFeature(FEATURE.gpsTracking);
+  const tracking = useFeature(FEATURE.autoGpsLog);
+  const compress = useFeature(FEATURE.photoCompression);
+  const compressedQuality = Number(useFeatureConfig(FEATURE.photoCompression, "quality") ?? PHOTO_QUALITY.compressed);
   const [tab, setTab] = useState<Tab>("camera");
   const [cameraPermission, requestCameraPermission] = useCameraPermissions();
   const [locationPermission, requestLocationPermission] = Location.useForegroundPermissions();
   const [capturing, setCapturing] = useState(false);
-  const [tracking, setTracking] = useState(false);
-  const [currentLocation, setCurrentLocation] = useState<Location.LocationObject | null>(null);
+  const [range, setRange] = useState<Range>("all");
+  const rangeFrom = useMemo(() => {
+    const ms = RANGES.find(r => r.key === range)?.ms;
+    return ms ? new Date(Date.now() - ms).toISOString() : undefined;
+  }, [range]);
+  const gps = usePagedLogs("gps", gpsLogs, rangeFrom);
+  const photos = usePagedLogs("photo", photoLogs);
   const cameraRef = useRef<CameraView>(null);
-  const trackingInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  const lastFix = gpsLogs[0];
 
   const headerPad = Platform.OS === "web" ? 67 : insets.top;
   const bottomPad = Platform.OS === "web" ? 34 : 0;
 
-  useEffect(() => {
-    return () => {
-      if (trackingInterval.current) clearInterval(trackingInterval.current);
-    };
-  }, []);
-
   const capturePhoto = async () => {
     if (!cameraRef.current) return;
     setCapturing(true);
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    haptics.impact(Haptics.ImpactFeedbackStyle.Medium);
     try {
-      const photo = await cameraRef.current.takePictureAsync({ quality: 0.8 });
+      const photo = await cameraRef.current.takePictureAsync({ quality: compress ? compressedQuality : PHOTO_QUALITY.full });
       if (photo?.uri) {
         addPhotoLog(photo.uri);
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        haptics.notify(Haptics.NotificationFeedbackType.Success);
       }
     } catch (e) {
       console.warn("Camera capture failed", e);
@@ -62,16 +100,15 @@ export default function SensorsScreen() {
       await requestLocationPermission();
       return;
     }
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    haptics.impact(Haptics.ImpactFeedbackStyle.Light);
     try {
       const loc = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
-      setCurrentLocation(loc);
       addGPSLog({
         lat: loc.coords.latitude,
         lng: loc.coords.longitude,
         accuracy: Math.round(loc.coords.accuracy ?? 0),
       });
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
     } catch (e) {
       console.warn("GPS error", e);
     }
@@ -82,20 +119,29 @@ export default function SensorsScreen() {
       await requestLocationPermission();
       return;
     }
-    if (tracking) {
-      if (trackingInterval.current) clearInterval(trackingInterval.current);
-      trackingInterval.current = null;
-      setTracking(false);
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    } else {
-      setTracking(true);
-      logGPS();
-      trackingInterval.current = setInterval(logGPS, 30000);
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
-    }
+    // Auto tracking is the Auto GPS Log feature; AutoGpsHost does the logging, so it goes on in the background too.
+    toggleFeature(FEATURE.autoGpsLog);
+    haptics.impact(tracking ? Haptics.ImpactFeedbackStyle.Light : Haptics.ImpactFeedbackStyle.Heavy);
+  };
+
+  // The GPS list sits inside the page's ScrollView, so older pages load as the page nears its end.
+  const handleScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (tab === "gps" && isNearEnd(e.nativeEvent)) gps.loadMore();
   };
 
+  const renderDisabled = (icon: "camera-outline" | "location-outline", name: string, id: string) => (
+    <View style={styles.permCenter}>
+      <Ionicons name={icon} size={48} color={Colors.textDim} />
+      <Text style={styles.permTitle}>{name} Is Off</Text>
+      <Text style={styles.permSubtitle}>Turn the feature on to use it</Text>
+      <Pressable onPress={() => toggleFeature(id)} style={styles.permBtn}>
+        <Text style={styles.permBtnText}>Turn On</Text>
+      </Pressable>
+    </View>
+  );
+
   const renderCamera = () => {
+    if (!cameraEnabled) return renderDisabled("camera-outline", "Camera Capture", FEATURE.camera);
     if (!cameraPermission) {
       return (
         <View style={styles.permCenter}>
@@ -132,7 +178,7 @@ export default function SensorsScreen() {
 
         <View style={styles.cameraControls}>
           <View style={styles.captureInfo}>
-            <Text style={styles.captureCount}>{photoLogs.length}</Text>
+            <Text style={styles.captureCount}>{photos.total}</Text>
             <Text style={styles.captureLabel}>SAVED</Text>
           </View>
           <Pressable
@@ -150,15 +196,21 @@ export default function SensorsScreen() {
           </View>
         </View>
 
-        {photoLogs.length > 0 && (
+        {photos.items.length > 0 && (
           <View style={styles.photoGrid}>
             <Text style={styles.sectionLabel}>RECENT CAPTURES</Text>
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginTop: 8 }}
-              contentContainerStyle={{ gap: 8 }}>
-              {photoLogs.slice(0, 10).map(p => (
-                <Image key={p.id} source={{ uri: p.uri }} style={styles.photoThumb} />
-              ))}
-            </ScrollView>
+            <FlatList
+              horizontal
+              data={photos.items}
+              keyExtractor={p => p.id}
+              showsHorizontalScrollIndicator={false}
+              style={{ marginTop: 8 }}
+              contentContainerStyle={{ gap: 8 }}
+              onEndReached={photos.loadMore}
+              onEndReachedThreshold={0.5}
+              renderItem={({ item }) => <PhotoThumb uri={item.uri} />}
+              ListFooterComponent={photos.loading ? <ActivityIndicator color={Colors.accent} style={styles.photoThumb} /> : null}
+            />
           </View>
         )}
       </View>
@@ -166,6 +218,7 @@ export default function SensorsScreen() {
   };
 
   const renderGPS = () => {
+    if (!gpsEnabled) return renderDisabled("location-outline", "GPS Tracking", FEATURE.gpsTracking);
     if (!locationPermission) {
       return (
         <View style={styles.permCenter}>
@@ -201,27 +254,27 @@ export default function SensorsScreen() {
               </View>
             )}
           </View>
-          {currentLocation ? (
+          {lastFix ? (
             <View style={styles.coordsGrid}>
               <View style={styles.coordItem}>
                 <Text style={styles.coordLabel}>LATITUDE</Text>
-                <Text style={styles.coordValue}>{currentLocation.coords.latitude.toFixed(6)}</Text>
+                <Text style={styles.coordValue}>{lastFix.lat.toFixed(6)}</Text>
               </View>
               <View style={styles.coordItem}>
                 <Text style={styles.coordLabel}>LONGITUDE</Text>
-                <Text style={styles.coordValue}>{currentLocation.coords.longitude.toFixed(6)}</Text>
+                <Text style={styles.coordValue}>{lastFix.lng.toFixed(6)}</Text>
               </View>
               <View style={styles.coordItem}>
                 <Text style={styles.coordLabel}>ACCURACY</Text>
-                <Text style={styles.coordValue}>{Math.round(currentLocation.coords.accuracy ?? 0)}m</Text>
+                <Text style={styles.coordValue}>{lastFix.accuracy}m</Text>
               </View>
               <View style={styles.coordItem}>
                 <Text style={styles.coordLabel}>LOGS</Text>
-                <Text style={styles.coordValue}>{gpsLogs.length}</Text>
+                <Text style={styles.coordValue}>{gps.total}</Text>
               </View>
             </View>
           ) : (
-            <Text style={styles.noLocText}>Tap Log or Start Tracking to get position</Text>
+            <Text style={styles.noLocText}>Tap Log Now or Auto Track to get a position</Text>
           )}
         </View>
 
@@ -254,15 +307,24 @@ export default function SensorsScreen() {
         </View>
 
         {/* Logs */}
-        <Text style={[styles.sectionLabel, { marginTop: 16, marginBottom: 8 }]}>GPS LOG HISTORY</Text>
-        {gpsLogs.length === 0 ? (
+        <View style={styles.historyHeader}>
+          <Text style={styles.sectionLabel}>GPS LOG HISTORY</Text>
+          <View style={styles.rangeChips}>
+            {RANGES.map(r => (
+              <Pressable key={r.key} onPress={() => setRange(r.key)} style={[styles.rangeChip, range === r.key && styles.rangeChipActive]}>
+                <Text style={[styles.rangeChipText, range === r.key && { color: Colors.accent }]}>{r.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+        {gps.items.length === 0 ? (
           <View style={styles.emptyGPS}>
             <Ionicons name="map-outline" size={36} color={Colors.textDim} />
-            <Text style={styles.emptyGPSText}>No GPS logs yet</Text>
+            <Text style={styles.emptyGPSText}>{range === "all" ? "No GPS logs yet" : "No GPS logs in this range"}</Text>
           </View>
         ) : (
           <FlatList
-            data={gpsLogs.slice(0, 50)}
+            data={gps.items}
             keyExtractor={item => item.id}
             scrollEnabled={false}
             renderItem={({ item, index }) => (
@@ -278,6 +340,7 @@ export default function SensorsScreen() {
                 </View>
               </View>
             )}
+            ListFooterComponent={gps.loading ? <ActivityIndicator color={Colors.accent} style={{ marginTop: 12 }} /> : null}
           />
         )}
       </View>
@@ -313,6 +376,8 @@ export default function SensorsScreen() {
       <ScrollView
         showsVerticalScrollIndicator={false}
         contentContainerStyle={{ padding: 16, paddingBottom: bottomPad + 100 }}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
         {tab === "camera" ? renderCamera() : renderGPS()}
       </ScrollView>
@@ -493,6 +558,34 @@ const styles = StyleSheet.create({
     color: Colors.textDim,
   },
   gpsSection: { gap: 0 },
+  historyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  rangeChips: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  rangeChip: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: Colors.bgBorder,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  rangeChipActive: {
+    borderColor: Colors.accent,
+    backgroundColor: Colors.accent + "15",
+  },
+  rangeChipText: {
+    fontFamily: "Rajdhani_600SemiBold",
+    fontSize: 11,
+    letterSpacing: 1,
+    color: Colors.textDim,
+  },
   gpsCard: {
     backgroundColor: Colors.bgCard,
     borderRadius: 16,
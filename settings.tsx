@@ -1,4 +1,4 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
 import {
   View,
   Text,
@@ -9,15 +9,163 @@ import {
   Platform,
   Alert,
   Linking,
+  Share,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
+import { haptics } from "@/lib/haptics";
+import * as DocumentPicker from "expo-document-picker";
+import * as Sharing from "expo-sharing";
 import { Colors } from "@/constants/colors";
-import { useApp } from "@/context/AppContext";
+import { useAppCore, ConfigParam, ConfigValue, AuditEntry } from "@/context/AppContext";
+import { useFeatures, useEmail, featureStore } from "@/context/stores";
+import { NetworkCard } from "@/components/NetworkCard";
+import { BatteryCard } from "@/components/BatteryCard";
+import { ProfilePicker } from "@/components/ProfilePicker";
+import { FEATURE, formatConfigValue, describeParam, parseConfigValue, planFeatureRemoval, describeRemoval } from "@/lib/features";
+import { useFeature } from "@/hooks/useFeature";
+import { useFeatureToggle } from "@/hooks/useFeatureToggle";
+import { describeSummary, ConflictPolicy, RestoreMode } from "@/lib/backup";
+import { describePolicy, describePrune, hasLimits, LOG_KINDS, LOG_KIND_LABELS, RetentionPolicy } from "@/lib/retention";
+import type { LogKind } from "@/lib/log-store";
+import { describeAuditChange } from "@/lib/audit";
+import { exportManifest, readManifest, planImport, describeImport, ImportStrategy } from "@/lib/manifest";
 
 const SECRET_TAPS = 7;
 const SECRET_TIMEOUT = 3000;
+const ADMIN_HISTORY_LIMIT = 20;
+
+/** Shows an alert with one button per choice; resolves with the chosen value, or null when cancelled. */
+function choose<T>(title: string, message: string, choices: { text: string; value: T; style?: "destructive" }[]): Promise<T | null> {
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [{ text: "Cancel", style: "cancel", onPress: () => resolve(null) }, ...choices.map(c => ({ text: c.text, style: c.style, onPress: () => resolve(c.value) }))],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+}
+
+const DAY = 86_400_000;
+const MB = 1024 * 1024;
+
+interface RetentionRowProps {
+  kind: LogKind;
+  policy: RetentionPolicy | undefined;
+  onSave: (kind: LogKind, policy: RetentionPolicy | null) => void;
+}
+
+/** Limits for one kind of log; an empty field means no limit. */
+function RetentionRow({ kind, policy, onSave }: RetentionRowProps) {
+  const [count, setCount] = useState(policy?.maxCount?.toString() ?? "");
+  const [days, setDays] = useState(policy?.maxAge !== undefined ? String(policy.maxAge / DAY) : "");
+  const [megabytes, setMegabytes] = useState(policy?.maxSize !== undefined ? String(policy.maxSize / MB) : "");
+
+  const handleSave = () => {
+    const read = (text: string, scale: number) => {
+      const n = parseFloat(text);
+      return text.trim() && n > 0 ? Math.round(n * scale) : undefined;
+    };
+    const next: RetentionPolicy = {};
+    const maxCount = read(count, 1);
+    const maxAge = read(days, DAY);
+    const maxSize = read(megabytes, MB);
+    if (maxCount !== undefined) next.maxCount = maxCount;
+    if (maxAge !== undefined) next.maxAge = maxAge;
+    if (maxSize !== undefined) next.maxSize = maxSize;
+    onSave(kind, hasLimits(next) ? next : null);
+    haptics.notify(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const field = (value: string, onChange: (text: string) => void, placeholder: string) => (
+    <TextInput
+      style={[styles.textInput, { flex: 1 }]}
+      value={value}
+      onChangeText={onChange}
+      placeholder={placeholder}
+      placeholderTextColor={Colors.textDim}
+      keyboardType="numeric"
+    />
+  );
+
+  return (
+    <View style={styles.retentionRow}>
+      <Text style={styles.cardLabel}>{LOG_KIND_LABELS[kind]}</Text>
+      <Text style={styles.cardSubtitle}>{describePolicy(policy)}</Text>
+      <View style={styles.retentionFields}>
+        {field(count, setCount, "Max count")}
+        {field(days, setDays, "Max days")}
+        {field(megabytes, setMegabytes, "Max MB")}
+        <Pressable onPress={handleSave} style={[styles.actionBtn, { backgroundColor: Colors.bgElevated }]}>
+          <Ionicons name="save-outline" size={16} color={Colors.textPrimary} />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+interface ConfigFieldProps {
+  param: ConfigParam;
+  value: ConfigValue;
+  onSave: (key: string, value: ConfigValue | null) => void;
+}
+
+function ConfigField({ param, value, onSave }: ConfigFieldProps) {
+  const [text, setText] = useState(formatConfigValue(param, value));
+  useEffect(() => setText(formatConfigValue(param, value)), [param, value]);
+
+  const save = (input: string) => {
+    const parsed = parseConfigValue(param, input);
+    if ("error" in parsed) {
+      haptics.notify(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Invalid Value", parsed.error);
+      setText(formatConfigValue(param, value));
+      return;
+    }
+    onSave(param.key, parsed.value);
+    haptics.notify(Haptics.NotificationFeedbackType.Success);
+  };
+
+  return (
+    <View style={styles.retentionRow}>
+      <Text style={styles.cardLabel}>{param.label}</Text>
+      <Text style={styles.cardSubtitle}>{describeParam(param)} · default {formatConfigValue(param, param.default)}</Text>
+      <View style={styles.retentionFields}>
+        {param.type === "enum" ? (
+          param.options.map(option => (
+            <Pressable
+              key={option}
+              onPress={() => save(option)}
+              style={[styles.toggleChip, { backgroundColor: option === value ? Colors.success + "20" : Colors.bgElevated }]}
+            >
+              <Text style={[styles.toggleChipText, { color: option === value ? Colors.success : Colors.textDim }]}>{option}</Text>
+            </Pressable>
+          ))
+        ) : (
+          <>
+            <TextInput
+              style={[styles.textInput, { flex: 1 }]}
+              value={text}
+              onChangeText={setText}
+              onSubmitEditing={() => save(text)}
+              placeholderTextColor={Colors.textDim}
+              keyboardType={param.type === "number" ? "numeric" : "default"}
+              autoCapitalize="none"
+            />
+            <Pressable onPress={() => save(text)} style={[styles.actionBtn, { backgroundColor: Colors.bgElevated }]}>
+              <Ionicons name="save-outline" size={16} color={Colors.textPrimary} />
+            </Pressable>
+          </>
+        )}
+        <Pressable onPress={() => onSave(param.key, null)} style={[styles.actionBtn, { backgroundColor: Colors.bgElevated }]}>
+          <Ionicons name="refresh-outline" size={16} color={Colors.textPrimary} />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
 
 interface AdminFeatureCardProps {
   id: string;
@@ -25,16 +173,27 @@ interface AdminFeatureCardProps {
   description: string;
   category: string;
   enabled: boolean;
-  onRemove: (id: string) => void;
+  requires?: string[];
+  conflictsWith?: string[];
+  params?: ConfigParam[];
+  config?: Record<string, ConfigValue>;
+  /** Audit entries for this feature, newest first. */
+  history: AuditEntry[];
+  onRemove: (id: string, cascade: boolean) => void;
   onToggle: (id: string) => void;
+  onConfigure: (id: string, key: string, value: ConfigValue | null) => void;
 }
 
-function AdminFeatureCard({ id, name, description, category, enabled, onRemove, onToggle }: AdminFeatureCardProps) {
+function AdminFeatureCard({ id, name, description, category, enabled, requires, conflictsWith, params, config, history, onRemove, onToggle, onConfigure }: AdminFeatureCardProps) {
+  const [showHistory, setShowHistory] = useState(false);
+
   const handleRemove = () => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    Alert.alert("Remove Feature", `Remove "${name}"?`, [
+    haptics.impact(Haptics.ImpactFeedbackStyle.Medium);
+    const plan = planFeatureRemoval(featureStore.get(), id);
+    const inUse = plan.dependents.length > 0;
+    Alert.alert("Remove Feature", inUse ? `Remove "${name}"?\n\n${describeRemoval(plan)}` : `Remove "${name}"?`, [
       { text: "Cancel", style: "cancel" },
-      { text: "Remove", style: "destructive", onPress: () => onRemove(id) },
+      { text: inUse ? "Remove Anyway" : "Remove", style: "destructive", onPress: () => onRemove(id, inUse) },
     ]);
   };
 
@@ -59,14 +218,44 @@ function AdminFeatureCard({ id, name, description, category, enabled, onRemove,
           </Pressable>
         </View>
       </View>
-      <Text style={styles.adminCardId}>ID: {id}</Text>
+      <Text style={styles.adminCardId}>
+        ID: {id}
+        {requires?.length ? ` · requires ${requires.join(", ")}` : ""}
+        {conflictsWith?.length ? ` · conflicts with ${conflictsWith.join(", ")}` : ""}
+      </Text>
+      {params?.map(p => (
+        <ConfigField key={p.key} param={p} value={config?.[p.key] ?? p.default} onSave={(key, value) => onConfigure(id, key, value)} />
+      ))}
+      {history.length > 0 && (
+        <Pressable onPress={() => setShowHistory(v => !v)}>
+          <Text style={styles.adminCardId}>
+            {showHistory ? "HIDE" : "SHOW"} HISTORY ({history.length})
+          </Text>
+        </Pressable>
+      )}
+      {showHistory &&
+        history.slice(0, ADMIN_HISTORY_LIMIT).map(e => (
+          <Text key={e.id} style={styles.adminCardDesc}>
+            {new Date(e.at).toLocaleString()} · {describeAuditChange(e)} · {e.source}
+          </Text>
+        ))}
     </View>
   );
 }
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
-  const { features, emailAddress, setEmailAddress, addFeature, removeFeature, toggleFeature, emailQueue, clearCommandLogs, clearGPSLogs } = useApp();
+  const features = useFeatures();
+  const emailSync = useFeature(FEATURE.emailSync);
+  const batteryMonitor = useFeature(FEATURE.batteryMonitor);
+  const toggleFeature = useFeatureToggle("admin");
+  const { queue: emailQueue, address: emailAddress } = useEmail();
+  const { setEmailAddress, addFeature, removeFeature, setFeatureConfig, importFeatures, featureAudit, clearCommandLogs, clearGPSLogs, quarantine, discardQuarantine, backUp, previewRestore, restoreBackup, vault, enableVault, disableVault, lock, retention, setRetention, pruneLogs } = useAppCore();
+  const [pruneBusy, setPruneBusy] = useState(false);
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [passphraseConfirm, setPassphraseConfirm] = useState("");
+  const [vaultBusy, setVaultBusy] = useState(false);
   const [emailInput, setEmailInput] = useState(emailAddress);
   const [showAdmin, setShowAdmin] = useState(false);
   const [newFeatureName, setNewFeatureName] = useState("");
@@ -80,14 +269,14 @@ export default function SettingsScreen() {
 
   const handleSecretTap = () => {
     tapCount.current += 1;
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    haptics.impact(Haptics.ImpactFeedbackStyle.Light);
 
     if (tapTimer.current) clearTimeout(tapTimer.current);
 
     if (tapCount.current >= SECRET_TAPS) {
       tapCount.current = 0;
       setShowAdmin(prev => !prev);
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
       return;
     }
 
@@ -98,11 +287,15 @@ export default function SettingsScreen() {
 
   const saveEmail = () => {
     setEmailAddress(emailInput.trim());
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    haptics.notify(Haptics.NotificationFeedbackType.Success);
     Alert.alert("Saved", `Email set to: ${emailInput.trim()}`);
   };
 
   const syncEmail = () => {
+    if (!emailSync) {
+      Alert.alert("Email Sync Off", "Turn on the Email Sync feature to send sync reports.");
+      return;
+    }
     if (!emailAddress) {
       Alert.alert("No Email", "Please set your email address first.");
       return;
@@ -117,7 +310,172 @@ export default function SettingsScreen() {
       `Queue Items: ${emailQueue.length}`
     );
     Linking.openURL(`mailto:${emailAddress}?subject=${subject}&body=${body}`);
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    haptics.impact(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handleQuarantine = () => {
+    const keys = Array.from(new Set(quarantine.map(q => q.key))).join(", ");
+    Alert.alert(
+      "Recovered Data",
+      `${quarantine.length} stored item${quarantine.length === 1 ? "" : "s"} (${keys}) could not be read and were set aside. Share them to recover by hand, or discard them.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Share", onPress: () => Share.share({ message: JSON.stringify(quarantine, null, 2) }) },
+        { text: "Discard", style: "destructive", onPress: discardQuarantine },
+      ]
+    );
+  };
+
+  const handlePrune = async (dryRun: boolean) => {
+    setPruneBusy(true);
+    try {
+      const preview = await pruneLogs(true);
+      const total = preview.reduce((n, r) => n + r.ids.length, 0);
+      if (dryRun || total === 0) {
+        Alert.alert("Retention Preview", describePrune(preview));
+        return;
+      }
+      const confirmed = await choose("Prune Logs?", `${describePrune(preview)}\n\nThis cannot be undone.`, [{ text: "Prune", value: true, style: "destructive" }]);
+      if (!confirmed) return;
+      const results = await pruneLogs();
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
+      Alert.alert("Pruned", describePrune(results));
+    } catch (e) {
+      Alert.alert("Prune Failed", e instanceof Error ? e.message : String(e));
+    } finally {
+      setPruneBusy(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setBackupBusy(true);
+    try {
+      const file = await backUp();
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
+      const share = await choose("Backup Saved", `${file.name} holds all features, logs, settings and photos. Share it to keep a copy off this device.`, [{ text: "Share", value: true }]);
+      if (share) await Sharing.shareAsync(file.uri, { mimeType: "application/json", dialogTitle: "Share backup" });
+    } catch (e) {
+      Alert.alert("Backup Failed", e instanceof Error ? e.message : String(e));
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({ type: ["application/json", "*/*"], copyToCacheDirectory: true });
+    if (picked.canceled) return;
+    const uri = picked.assets[0].uri;
+    setBackupBusy(true);
+    try {
+      const mode = await choose<RestoreMode>("Restore Backup", "Merge the backup into the current data, or replace everything with it?", [
+        { text: "Merge", value: "merge" },
+        { text: "Replace", value: "replace", style: "destructive" },
+      ]);
+      if (!mode) return;
+      let plan = await previewRestore(uri, { mode, conflicts: "keep" });
+      const conflicts = plan.summary.reduce((n, s) => n + s.conflicts, 0);
+      if (mode === "merge" && conflicts > 0) {
+        const policy = await choose<ConflictPolicy>(
+          "Conflicting Items",
+          `${conflicts} item${conflicts === 1 ? "" : "s"} in the backup share an id with different data here.`,
+          [
+            { text: "Keep Mine", value: "keep" },
+            { text: "Use Backup", value: "overwrite" },
+            { text: "Keep Both", value: "duplicate" },
+          ]
+        );
+        if (!policy) return;
+        if (policy !== "keep") plan = await previewRestore(uri, { mode, conflicts: policy });
+      }
+      const confirmed = await choose(
+        mode === "replace" ? "Replace All Data?" : "Merge Backup?",
+        `Backup from ${new Date(plan.createdAt).toLocaleString()}:\n${describeSummary(plan.summary)}\n\nThis cannot be undone.`,
+        [{ text: "Restore", value: true, style: "destructive" }]
+      );
+      if (!confirmed) return;
+      await restoreBackup(plan);
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
+      Alert.alert("Restored", "The backup has been restored.");
+    } catch (e) {
+      Alert.alert("Restore Failed", e instanceof Error ? e.message : String(e));
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleExportFeatures = async () => {
+    try {
+      const file = await exportManifest(features);
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
+      await Sharing.shareAsync(file.uri, { mimeType: "application/json", dialogTitle: "Share feature manifest" });
+    } catch (e) {
+      Alert.alert("Export Failed", e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleImportFeatures = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({ type: ["application/json", "*/*"], copyToCacheDirectory: true });
+    if (picked.canceled) return;
+    try {
+      const manifest = await readManifest(picked.assets[0].uri);
+      const strategy = await choose<ImportStrategy>("Import Features", `${manifest.features.length} features. Add only the new ones, also update the ones that differ, or make the list match the manifest?`, [
+        { text: "Add New", value: "add" },
+        { text: "Merge", value: "merge" },
+        { text: "Replace", value: "replace", style: "destructive" },
+      ]);
+      if (!strategy) return;
+      const plan = planImport(manifest, featureStore.get(), strategy);
+      if (plan.problems.length) {
+        Alert.alert("Cannot Import", describeImport(plan));
+        return;
+      }
+      const confirmed = await choose("Import Features?", describeImport(plan), [{ text: "Import", value: true }]);
+      if (!confirmed) return;
+      // Plan again: the features may have changed while the preview was open.
+      const latest = planImport(manifest, featureStore.get(), strategy);
+      if (latest.problems.length) {
+        Alert.alert("Cannot Import", describeImport(latest));
+        return;
+      }
+      importFeatures(latest);
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
+    } catch (e) {
+      Alert.alert("Import Failed", e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const runVaultAction = async (action: () => Promise<void>, done: string) => {
+    setVaultBusy(true);
+    try {
+      await action();
+      setPassphrase("");
+      setPassphraseConfirm("");
+      haptics.notify(Haptics.NotificationFeedbackType.Success);
+      Alert.alert("Encryption", done);
+    } catch (e) {
+      Alert.alert("Encryption", e instanceof Error ? e.message : String(e));
+    } finally {
+      setVaultBusy(false);
+    }
+  };
+
+  const handleEnableVault = () => {
+    if (passphrase.length < 8) {
+      Alert.alert("Passphrase Too Short", "Use at least 8 characters.");
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      Alert.alert("Passphrases Differ", "Type the same passphrase twice.");
+      return;
+    }
+    Alert.alert("Enable Encryption", "Your data cannot be recovered without this passphrase. Backups are encrypted too and only restore while this vault is set up.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Encrypt", onPress: () => runVaultAction(() => enableVault(passphrase), "Stored data and photos are now encrypted.") },
+    ]);
+  };
+
+  const handleDisableVault = () => {
+    runVaultAction(() => disableVault(passphrase), "Encryption turned off. Data is stored in plain text again.");
   };
 
   const addNewFeature = () => {
@@ -125,11 +483,11 @@ export default function SettingsScreen() {
       Alert.alert("Required", "Name and description are required.");
       return;
     }
-    addFeature(newFeatureName.trim(), newFeatureDesc.trim(), newFeatureCat.trim() || "Custom");
+    addFeature(newFeatureName.trim(), newFeatureDesc.trim(), newFeatureCat.trim() || "Custom", "admin");
     setNewFeatureName("");
     setNewFeatureDesc("");
     setNewFeatureCat("Custom");
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    haptics.notify(Haptics.NotificationFeedbackType.Success);
   };
 
   return (
@@ -189,6 +547,102 @@ export default function SettingsScreen() {
           ) : null}
         </View>
 
+        {/* Profiles */}
+        <Text style={[styles.sectionLabel, { marginTop: 24 }]}>PROFILES</Text>
+        <ProfilePicker />
+
+        {/* Network */}
+        <Text style={[styles.sectionLabel, { marginTop: 24 }]}>NETWORK</Text>
+        <NetworkCard />
+
+        {/* Battery */}
+        {batteryMonitor ? (
+          <>
+            <Text style={[styles.sectionLabel, { marginTop: 24 }]}>BATTERY</Text>
+            <BatteryCard />
+          </>
+        ) : null}
+
+        {/* Encryption */}
+        <Text style={[styles.sectionLabel, { marginTop: 24 }]}>ENCRYPTION</Text>
+        <View style={styles.card}>
+          <View style={styles.cardRow}>
+            <Ionicons name={vault === "off" ? "lock-open-outline" : "lock-closed"} size={18} color={vault === "off" ? Colors.textDim : Colors.success} />
+            <Text style={styles.cardLabel}>{vault === "off" ? "Not Encrypted" : "Encrypted Vault"}</Text>
+          </View>
+          <Text style={styles.cardSubtitle}>
+            {vault === "off"
+              ? "Encrypt stored data, logs and photos with a passphrase"
+              : "Enter the passphrase to turn encryption off"}
+          </Text>
+          <TextInput
+            style={styles.textInput}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="Passphrase"
+            placeholderTextColor={Colors.textDim}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!vaultBusy}
+          />
+          {vault === "off" && (
+            <TextInput
+              style={[styles.textInput, { marginTop: 8 }]}
+              value={passphraseConfirm}
+              onChangeText={setPassphraseConfirm}
+              placeholder="Repeat passphrase"
+              placeholderTextColor={Colors.textDim}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!vaultBusy}
+            />
+          )}
+          <View style={styles.emailActions}>
+            {vault === "off" ? (
+              <Pressable onPress={handleEnableVault} disabled={vaultBusy} style={[styles.actionBtn, { backgroundColor: Colors.accent, opacity: vaultBusy ? 0.5 : 1 }]}>
+                <Ionicons name="lock-closed-outline" size={16} color={Colors.bgDeep} />
+                <Text style={[styles.actionBtnText, { color: Colors.bgDeep }]}>{vaultBusy ? "ENCRYPTING…" : "ENCRYPT"}</Text>
+              </Pressable>
+            ) : (
+              <>
+                <Pressable onPress={() => lock().catch(e => Alert.alert("Encryption", e.message))} disabled={vaultBusy} style={[styles.actionBtn, { backgroundColor: Colors.accent, opacity: vaultBusy ? 0.5 : 1 }]}>
+                  <Ionicons name="lock-closed-outline" size={16} color={Colors.bgDeep} />
+                  <Text style={[styles.actionBtnText, { color: Colors.bgDeep }]}>LOCK NOW</Text>
+                </Pressable>
+                <Pressable onPress={handleDisableVault} disabled={vaultBusy || !passphrase} style={[styles.actionBtn, { backgroundColor: Colors.bgElevated, opacity: vaultBusy || !passphrase ? 0.5 : 1 }]}>
+                  <Ionicons name="lock-open-outline" size={16} color={Colors.textPrimary} />
+                  <Text style={styles.actionBtnText}>{vaultBusy ? "WORKING…" : "TURN OFF"}</Text>
+                </Pressable>
+              </>
+            )}
+          </View>
+        </View>
+
+        {/* Retention */}
+        <Text style={[styles.sectionLabel, { marginTop: 24 }]}>RETENTION</Text>
+        <View style={styles.card}>
+          <View style={styles.cardRow}>
+            <Ionicons name="hourglass-outline" size={18} color={Colors.accent} />
+            <Text style={styles.cardLabel}>Log Retention</Text>
+          </View>
+          <Text style={styles.cardSubtitle}>Older logs beyond these limits are deleted in the background</Text>
+          {LOG_KINDS.map(kind => (
+            <RetentionRow key={kind} kind={kind} policy={retention[kind]} onSave={setRetention} />
+          ))}
+          <View style={styles.emailActions}>
+            <Pressable onPress={() => handlePrune(true)} disabled={pruneBusy} style={[styles.actionBtn, { backgroundColor: Colors.bgElevated, opacity: pruneBusy ? 0.5 : 1 }]}>
+              <Ionicons name="eye-outline" size={16} color={Colors.textPrimary} />
+              <Text style={styles.actionBtnText}>PREVIEW</Text>
+            </Pressable>
+            <Pressable onPress={() => handlePrune(false)} disabled={pruneBusy} style={[styles.actionBtn, { backgroundColor: Colors.accent, opacity: pruneBusy ? 0.5 : 1 }]}>
+              <Ionicons name="cut-outline" size={16} color={Colors.bgDeep} />
+              <Text style={[styles.actionBtnText, { color: Colors.bgDeep }]}>{pruneBusy ? "WORKING…" : "PRUNE NOW"}</Text>
+            </Pressable>
+          </View>
+        </View>
+
         {/* App Info */}
         <Text style={[styles.sectionLabel, { marginTop: 24 }]}>APP INFO</Text>
         <View style={styles.card}>
@@ -196,7 +650,7 @@ export default function SettingsScreen() {
             { label: "App Name", value: "Rubel Engine Project" },
             { label: "Version", value: "1.0.0" },
             { label: "Platform", value: Platform.OS.toUpperCase() },
-            { label: "Storage", value: "100% Local (AsyncStorage)" },
+            { label: "Storage", value: vault === "off" ? "100% Local (AsyncStorage)" : "100% Local (Encrypted)" },
             { label: "Network Required", value: "No" },
             { label: "Subscription", value: "None - Free Forever" },
             { label: "Email Queue", value: `${emailQueue.length} pending` },
@@ -212,6 +666,16 @@ export default function SettingsScreen() {
         {/* Data Management */}
         <Text style={[styles.sectionLabel, { marginTop: 24 }]}>DATA MANAGEMENT</Text>
         <View style={styles.card}>
+          <Pressable onPress={handleBackup} disabled={backupBusy} style={[styles.dangerRow, backupBusy && { opacity: 0.5 }]}>
+            <Ionicons name="archive-outline" size={18} color={Colors.accent} />
+            <Text style={[styles.dangerText, { color: Colors.accent }]}>Back Up All Data</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textDim} />
+          </Pressable>
+          <Pressable onPress={handleRestore} disabled={backupBusy} style={[styles.dangerRow, backupBusy && { opacity: 0.5 }]}>
+            <Ionicons name="cloud-download-outline" size={18} color={Colors.accent} />
+            <Text style={[styles.dangerText, { color: Colors.accent }]}>Restore from Backup</Text>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textDim} />
+          </Pressable>
           <Pressable
             onPress={() => Alert.alert("Clear Commands", "Clear all command logs?", [
               { text: "Cancel", style: "cancel" },
@@ -234,6 +698,13 @@ export default function SettingsScreen() {
             <Text style={styles.dangerText}>Clear GPS Logs</Text>
             <Ionicons name="chevron-forward" size={16} color={Colors.textDim} />
           </Pressable>
+          {quarantine.length > 0 && (
+            <Pressable onPress={handleQuarantine} style={styles.dangerRow}>
+              <Ionicons name="medkit-outline" size={18} color={Colors.warning} />
+              <Text style={[styles.dangerText, { color: Colors.warning }]}>Recovered Data ({quarantine.length})</Text>
+              <Ionicons name="chevron-forward" size={16} color={Colors.textDim} />
+            </Pressable>
+          )}
         </View>
 
         {/* Hidden Admin Panel */}
@@ -284,6 +755,18 @@ export default function SettingsScreen() {
               </Pressable>
             </View>
 
+            {/* Manifest */}
+            <View style={[styles.emailActions, { marginTop: 12 }]}>
+              <Pressable onPress={handleExportFeatures} style={[styles.actionBtn, { backgroundColor: Colors.bgElevated }]}>
+                <Ionicons name="share-outline" size={16} color={Colors.textPrimary} />
+                <Text style={styles.actionBtnText}>EXPORT</Text>
+              </Pressable>
+              <Pressable onPress={handleImportFeatures} style={[styles.actionBtn, { backgroundColor: Colors.bgElevated }]}>
+                <Ionicons name="download-outline" size={16} color={Colors.textPrimary} />
+                <Text style={styles.actionBtnText}>IMPORT</Text>
+              </Pressable>
+            </View>
+
             {/* Feature List */}
             <Text style={[styles.sectionLabel, { marginTop: 16 }]}>ALL FEATURES ({features.length})</Text>
             <View style={{ gap: 8 }}>
@@ -291,8 +774,10 @@ export default function SettingsScreen() {
                 <AdminFeatureCard
                   key={f.id}
                   {...f}
-                  onRemove={removeFeature}
+                  history={featureAudit.filter(e => e.featureId === f.id)}
+                  onRemove={(id, cascade) => removeFeature(id, "admin", cascade)}
                   onToggle={toggleFeature}
+                  onConfigure={(id, key, value) => setFeatureConfig(id, key, value, "admin")}
                 />
               ))}
             </View>
@@ -386,6 +871,15 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.bgBorder,
   },
+  retentionRow: {
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.bgBorder + "40",
+  },
+  retentionFields: {
+    flexDirection: "row",
+    gap: 8,
+  },
   emailActions: {
     flexDirection: "row",
     gap: 10,
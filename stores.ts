@@ -0,0 +1,134 @@
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import type { Feature, GPSLog, PhotoLog, CommandLog, EmailQueue, Script, Schedule, FeatureProfile, AuditEntry, UndoEntry } from "@/context/AppContext";
+
+type Listener = () => void;
+
+/**
+ * One domain of app state held outside React, so that a change only
+ * re-renders the components subscribed to it. AppProvider owns the writes;
+ * components read through the selector hooks below.
+ */
+export class Store<T> {
+  private value: T;
+  private listeners = new Set<Listener>();
+
+  constructor(private initial: T) {
+    this.value = initial;
+  }
+
+  get = (): T => this.value;
+
+  set = (next: T | ((prev: T) => T)): void => {
+    const value = typeof next === "function" ? (next as (prev: T) => T)(this.value) : next;
+    if (Object.is(value, this.value)) return;
+    this.value = value;
+    this.listeners.forEach(l => l());
+  };
+
+  reset = (): void => this.set(this.initial);
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+}
+
+export interface EmailState {
+  queue: EmailQueue[];
+  address: string;
+}
+
+const DEFAULT_FEATURES: Feature[] = [
+  { id: "f001", name: "GPS Tracking", description: "Real-time location logging", enabled: true, category: "Sensors", addedAt: new Date().toISOString() },
+  { id: "f002", name: "Camera Capture", description: "Offline photo capture", enabled: true, category: "Sensors", addedAt: new Date().toISOString() },
+  { id: "f003", name: "Email Sync", description: "Sync data when online", enabled: true, category: "Network", addedAt: new Date().toISOString() },
+  { id: "f004", name: "Dark Mode", description: "Always-on dark interface", enabled: true, category: "UI", addedAt: new Date().toISOString() },
+  { id: "f005", name: "Haptic Feedback", description: "Tactile button responses", enabled: true, category: "UI", addedAt: new Date().toISOString() },
+  { id: "f006", name: "Auto GPS Log", description: "Log GPS on an interval", enabled: false, category: "Sensors", addedAt: new Date().toISOString(), requires: ["f001"],
+    params: [{ key: "interval", label: "Interval", type: "duration", default: 30_000, min: 5_000, max: 3_600_000 }] },
+  { id: "f007", name: "Battery Monitor", description: "Track battery usage", enabled: false, category: "System", addedAt: new Date().toISOString() },
+  { id: "f008", name: "Network Watch", description: "Monitor connectivity state", enabled: true, category: "Network", addedAt: new Date().toISOString() },
+  { id: "f009", name: "Command History", description: "Save all command logs", enabled: true, category: "System", addedAt: new Date().toISOString() },
+  { id: "f010", name: "Photo Compression", description: "Compress photos on save", enabled: false, category: "Sensors", addedAt: new Date().toISOString(), requires: ["f002"],
+    params: [{ key: "quality", label: "Quality", type: "number", default: 0.5, min: 0.05, max: 1 }] },
+];
+
+export const featureStore = new Store<Feature[]>(DEFAULT_FEATURES);
+export const gpsStore = new Store<GPSLog[]>([]);
+export const photoStore = new Store<PhotoLog[]>([]);
+export const commandStore = new Store<CommandLog[]>([]);
+export const emailStore = new Store<EmailState>({ queue: [], address: "" });
+
+// What commands change and read back in later steps of the same script. Stores write synchronously, so the next step sees the change before React renders it.
+export const scriptStore = new Store<Script[]>([]);
+export const scheduleStore = new Store<Schedule[]>([]);
+export const profileStore = new Store<FeatureProfile[]>([]);
+export const activeProfileStore = new Store<string | null>(null);
+export const aliasStore = new Store<Record<string, string>>({});
+export const variableStore = new Store<Record<string, string>>({});
+export const auditStore = new Store<AuditEntry[]>([]);
+/** Recorded changes, oldest first; see `@/lib/undo`. */
+export const undoStore = new Store<UndoEntry[]>([]);
+export const redoStore = new Store<UndoEntry[]>([]);
+
+/**
+ * Subscribes to the part of a store picked by `select`. The selection is
+ * recomputed only when the store changes, and the component re-renders only
+ * when it differs, so selectors may derive new arrays or objects.
+ */
+export function useStore<T, S>(store: Store<T>, select: (value: T) => S): S {
+  const cache = useRef<{ value: T; selected: S } | null>(null);
+  const selectRef = useRef(select);
+  if (selectRef.current !== select) {
+    selectRef.current = select;
+    cache.current = null;
+  }
+
+  const getSnapshot = useCallback(() => {
+    const value = store.get();
+    if (cache.current?.value !== value) cache.current = { value, selected: selectRef.current(value) };
+    return cache.current.selected;
+  }, [store]);
+
+  return useSyncExternalStore(store.subscribe, getSnapshot);
+}
+
+/** The whole value of a store, for state that is small or changes rarely. */
+export function useStoreValue<T>(store: Store<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get);
+}
+
+function identity<T>(value: T): T {
+  return value;
+}
+
+export function useFeatures(): Feature[];
+export function useFeatures<S>(select: (features: Feature[]) => S): S;
+export function useFeatures(select: (features: Feature[]) => unknown = identity) {
+  return useStore(featureStore, select);
+}
+
+/** The in-memory window of recent GPS logs, newest first. */
+export function useGpsLogs(): GPSLog[];
+export function useGpsLogs<S>(select: (logs: GPSLog[]) => S): S;
+export function useGpsLogs(select: (logs: GPSLog[]) => unknown = identity) {
+  return useStore(gpsStore, select);
+}
+
+export function usePhotoLogs(): PhotoLog[];
+export function usePhotoLogs<S>(select: (logs: PhotoLog[]) => S): S;
+export function usePhotoLogs(select: (logs: PhotoLog[]) => unknown = identity) {
+  return useStore(photoStore, select);
+}
+
+export function useCommandLogs(): CommandLog[];
+export function useCommandLogs<S>(select: (logs: CommandLog[]) => S): S;
+export function useCommandLogs(select: (logs: CommandLog[]) => unknown = identity) {
+  return useStore(commandStore, select);
+}
+
+export function useEmail(): EmailState;
+export function useEmail<S>(select: (email: EmailState) => S): S;
+export function useEmail(select: (email: EmailState) => unknown = identity) {
+  return useStore(emailStore, select);
+}
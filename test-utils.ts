@@ -0,0 +1,60 @@
+import type { Feature } from "@/context/AppContext";
+import type { CommandActions, CommandContext } from "@/lib/commands";
+
+/** A feature with the fields a test does not care about filled in. */
+export function makeFeature(id: string, overrides: Partial<Feature> = {}): Feature {
+  return { id, name: `Feature ${id}`, description: "", enabled: false, category: "Custom", addedAt: "2026-01-01T00:00:00.000Z", ...overrides };
+}
+
+/** Every command action as a Jest mock. */
+export function mockActions(overrides: Partial<CommandActions> = {}): CommandActions {
+  return {
+    setFeatureEnabled: jest.fn(() => ({ changes: [] })),
+    setFeatureConfig: jest.fn(),
+    addFeature: jest.fn(),
+    removeFeature: jest.fn(() => ({ changes: [], dependents: [] })),
+    importFeatures: jest.fn(),
+    clearCommandLogs: jest.fn(),
+    clearGPSLogs: jest.fn(),
+    addEmailQueue: jest.fn(),
+    addCommandLog: jest.fn(),
+    saveScript: jest.fn(),
+    deleteScript: jest.fn(),
+    saveProfile: jest.fn(),
+    applyProfile: jest.fn(),
+    deleteProfile: jest.fn(),
+    undo: jest.fn(() => null),
+    redo: jest.fn(() => null),
+    addSchedule: jest.fn(),
+    removeSchedule: jest.fn(),
+    setAlias: jest.fn(),
+    removeAlias: jest.fn(),
+    setVariable: jest.fn(),
+    removeVariable: jest.fn(),
+    backUp: jest.fn(),
+    previewRestore: jest.fn(),
+    restoreBackup: jest.fn(),
+    ...overrides,
+  };
+}
+
+/** A command context with empty state and mocked actions. */
+export function makeContext(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    features: [],
+    gpsLogs: [],
+    scripts: [],
+    schedules: [],
+    profiles: [],
+    activeProfile: null,
+    aliases: {},
+    variables: {},
+    history: [],
+    emailAddress: "",
+    isOnline: true,
+    networkEvents: [],
+    featureAudit: [],
+    actions: mockActions(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,35 @@
+import { recordUndo, undoLast, redoLast, clearUndoHistory } from "@/lib/undo";
+
+describe("undoLast", () => {
+  let value: number;
+  const set = (n: number) => {
+    const prev = value;
+    recordUndo(`set ${n}`, () => (value = n), () => (value = prev));
+  };
+
+  beforeEach(() => {
+    clearUndoHistory();
+    value = 0;
+  });
+
+  it("reverts one change per call when called back to back", () => {
+    set(1);
+    set(2);
+    expect(undoLast()?.label).toBe("set 2");
+    expect(undoLast()?.label).toBe("set 1");
+    expect(value).toBe(0);
+    expect(undoLast()).toBeNull();
+  });
+
+  it("re-applies undone changes in order, until a new change is recorded", () => {
+    set(1);
+    set(2);
+    undoLast();
+    undoLast();
+    expect(redoLast()?.label).toBe("set 1");
+    expect(value).toBe(1);
+    set(3);
+    expect(redoLast()).toBeNull();
+    expect(value).toBe(3);
+  });
+});
@@ -0,0 +1,44 @@
+import type { UndoEntry } from "@/context/AppContext";
+import { undoStore, redoStore } from "@/context/stores";
+import { ulid } from "@/lib/ids";
+
+const MAX_UNDO = 50;
+
+/** Applies `redo` and records it so that `undoLast` can revert it. Anything undone before can no longer be redone. */
+export function recordUndo(label: string, redo: () => void, undo: () => void): UndoEntry {
+  redo();
+  const entry: UndoEntry = { id: ulid(), label, at: new Date().toISOString(), undo, redo };
+  undoStore.set(prev => [...prev, entry].slice(-MAX_UNDO));
+  redoStore.set([]);
+  return entry;
+}
+
+/**
+ * Reverts the most recent change. The entry leaves the stack before it is
+ * applied, so a second call right after reverts the change before it.
+ */
+export function undoLast(): UndoEntry | null {
+  const stack = undoStore.get();
+  const entry = stack[stack.length - 1];
+  if (!entry) return null;
+  undoStore.set(prev => prev.slice(0, -1));
+  redoStore.set(prev => [...prev, entry]);
+  entry.undo();
+  return entry;
+}
+
+/** Re-applies the most recently undone change. */
+export function redoLast(): UndoEntry | null {
+  const stack = redoStore.get();
+  const entry = stack[stack.length - 1];
+  if (!entry) return null;
+  redoStore.set(prev => prev.slice(0, -1));
+  undoStore.set(prev => [...prev, entry].slice(-MAX_UNDO));
+  entry.redo();
+  return entry;
+}
+
+export function clearUndoHistory(): void {
+  undoStore.set([]);
+  redoStore.set([]);
+}
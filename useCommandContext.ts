@@ -0,0 +1,84 @@
+import { useAppCore } from "@/context/AppContext";
+import {
+  useCommandLogs, useEmail, featureStore, gpsStore, scriptStore, scheduleStore, profileStore, activeProfileStore, aliasStore, variableStore, auditStore, EmailState,
+} from "@/context/stores";
+import type { CommandActions, CommandContext } from "@/lib/commands";
+import { inputHistory } from "@/lib/history";
+// Command modules register themselves with the registry on import.
+import "@/lib/builtin-commands";
+import "@/lib/filters";
+import "@/lib/script-commands";
+import "@/lib/schedule-commands";
+import "@/lib/alias-commands";
+import "@/lib/backup-commands";
+import "@/lib/profile-commands";
+import "@/lib/manifest-commands";
+
+const selectAddress = (email: EmailState) => email.address;
+
+/**
+ * A context whose features, logs, scripts, schedules, profiles, aliases,
+ * variables and audit trail are read from their stores when a command uses
+ * them: that way each step of a script, or each schedule in a tick, sees
+ * what the ones before it changed, and `set home=f001; enable $home` works.
+ */
+export function liveCommandContext(values: Pick<CommandContext, "history" | "emailAddress" | "isOnline" | "networkEvents">, actions: CommandActions): CommandContext {
+  return {
+    get features() {
+      return featureStore.get();
+    },
+    get gpsLogs() {
+      return gpsStore.get();
+    },
+    get scripts() {
+      return scriptStore.get();
+    },
+    get schedules() {
+      return scheduleStore.get();
+    },
+    get profiles() {
+      return profileStore.get();
+    },
+    get activeProfile() {
+      return activeProfileStore.get();
+    },
+    get aliases() {
+      return aliasStore.get();
+    },
+    get variables() {
+      return variableStore.get();
+    },
+    get featureAudit() {
+      return auditStore.get();
+    },
+    ...values,
+    actions,
+  };
+}
+
+/**
+ * Builds the context commands run against from the current app state; see
+ * `liveCommandContext`. The Command Center does not re-render for every new
+ * GPS fix. Feature changes are audited under `source`.
+ */
+export function useCommandContext(source: "command" | "schedule" = "command"): CommandContext {
+  const {
+    isOnline, networkEvents,
+    setFeatureEnabled, setFeatureConfig, addFeature, removeFeature, importFeatures, clearCommandLogs, clearGPSLogs, addEmailQueue,
+    addCommandLog, saveScript, deleteScript, saveProfile, applyProfile, deleteProfile, undo, redo, addSchedule, removeSchedule,
+    setAlias, removeAlias, setVariable, removeVariable, backUp, previewRestore, restoreBackup,
+  } = useAppCore();
+  const history = useCommandLogs(inputHistory);
+  const emailAddress = useEmail(selectAddress);
+
+  return liveCommandContext({ history, emailAddress, isOnline, networkEvents }, {
+    setFeatureEnabled: (id, enabled, cascade) => setFeatureEnabled(id, enabled, source, cascade),
+    setFeatureConfig: (id, key, value) => setFeatureConfig(id, key, value, source),
+    addFeature: (name, desc, cat, links) => addFeature(name, desc, cat, source, links),
+    removeFeature: (id, cascade) => removeFeature(id, source, cascade),
+    importFeatures,
+    clearCommandLogs, clearGPSLogs, addEmailQueue,
+    addCommandLog, saveScript, deleteScript, saveProfile, applyProfile, deleteProfile, undo, redo, addSchedule, removeSchedule,
+    setAlias, removeAlias, setVariable, removeVariable, backUp, previewRestore, restoreBackup,
+  });
+}
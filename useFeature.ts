@@ -0,0 +1,9 @@
+import { useCallback } from "react";
+import type { Feature } from "@/context/AppContext";
+import { useFeatures } from "@/context/stores";
+
+/** Whether a feature is on; re-renders only when that changes. */
+export function useFeature(id: string): boolean {
+  const select = useCallback((features: Feature[]) => features.some(f => f.id === id && f.enabled), [id]);
+  return useFeatures(select);
+}
@@ -0,0 +1,10 @@
+import { useCallback } from "react";
+import type { Feature, ConfigValue } from "@/context/AppContext";
+import { useFeatures } from "@/context/stores";
+import { configValue } from "@/lib/features";
+
+/** One setting of a feature; re-renders only when that value changes. */
+export function useFeatureConfig(id: string, key: string): ConfigValue | undefined {
+  const select = useCallback((features: Feature[]) => configValue(features.find(f => f.id === id), key), [id, key]);
+  return useFeatures(select);
+}
@@ -0,0 +1,31 @@
+import { Alert } from "react-native";
+import { useAppCore, AuditSource } from "@/context/AppContext";
+import { featureStore } from "@/context/stores";
+import { planFeatureChange, describePlan } from "@/lib/features";
+
+/**
+ * Flips a feature from the UI. When other features have to change with it
+ * the user is asked first, and a change that cannot be made is explained.
+ * Changes are audited under `source`.
+ */
+export function useFeatureToggle(source: AuditSource): (id: string) => void {
+  const { toggleFeature, setFeatureEnabled } = useAppCore();
+  return (id: string) => {
+    const features = featureStore.get();
+    const feature = features.find(f => f.id === id);
+    if (!feature) return;
+    const verb = feature.enabled ? "Disable" : "Enable";
+    const plan = planFeatureChange(features, id, !feature.enabled);
+    if (plan.blocked) {
+      Alert.alert(`Cannot ${verb} ${feature.name}`, plan.blocked);
+    } else if (plan.changes.length > 1) {
+      Alert.alert(`${verb} ${feature.name}?`, describePlan(plan), [
+        { text: "Cancel", style: "cancel" },
+        // Set rather than flip: the feature may have changed while the alert was open.
+        { text: verb, onPress: () => setFeatureEnabled(id, !feature.enabled, source, true) },
+      ]);
+    } else {
+      toggleFeature(id, source);
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { queryLogs, countLogs, LogKind, LogRecords, PAGE_SIZE } from "@/lib/log-store";
+
+/**
+ * Pages through the log database behind the in-memory window of recent logs
+ * from AppContext. `items` is newest first: the recent window followed by
+ * every page loaded so far. `from` limits both to logs at or after that time.
+ */
+export function usePagedLogs<K extends LogKind>(kind: K, recent: LogRecords[K][], from?: string) {
+  const [older, setOlder] = useState<LogRecords[K][]>([]);
+  const [exhausted, setExhausted] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [total, setTotal] = useState<number | null>(null);
+  const generation = useRef(0);
+  const oldestRecentId = recent[recent.length - 1]?.id;
+
+  // A clear, or undoing one, replaces the window; start paging again from its new end.
+  useEffect(() => {
+    generation.current++;
+    setOlder([]);
+    setExhausted(false);
+    setLoading(false);
+  }, [kind, oldestRecentId, from]);
+
+  useEffect(() => {
+    let cancelled = false;
+    countLogs(kind, { from })
+      .then(n => !cancelled && setTotal(n))
+      .catch(() => !cancelled && setTotal(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, recent.length, oldestRecentId, from]);
+
+  const items = useMemo(() => {
+    const visible = from ? recent.filter(r => r.timestamp >= from) : recent;
+    return [...visible, ...older];
+  }, [recent, older, from]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || exhausted) return;
+    // Page from the end of everything held, even rows outside the range.
+    const last = older[older.length - 1] ?? recent[recent.length - 1];
+    const gen = generation.current;
+    setLoading(true);
+    try {
+      const page = await queryLogs(kind, { before: last ? { id: last.id, timestamp: last.timestamp } : undefined, from, limit: PAGE_SIZE });
+      if (gen !== generation.current) return;
+      setOlder(prev => [...prev, ...page]);
+      if (page.length < PAGE_SIZE) setExhausted(true);
+    } catch (e) {
+      console.warn(`Failed to load older ${kind} logs`, e);
+    } finally {
+      if (gen === generation.current) setLoading(false);
+    }
+  }, [kind, recent, older, from, loading, exhausted]);
+
+  return { items, loadMore, loading, exhausted, total: total ?? items.length };
+}
@@ -0,0 +1,30 @@
+import { useState, useEffect } from "react";
+import { useAppCore } from "@/context/AppContext";
+import { readFileBytes, toBase64 } from "@/lib/vault";
+
+/**
+ * A URI an `Image` can show for a stored photo. With the vault on, photo
+ * files are encrypted, so they are decrypted into a data URI; null while
+ * that is in progress or when the file cannot be read.
+ */
+export function usePhotoUri(uri: string): string | null {
+  const { vault } = useAppCore();
+  const [source, setSource] = useState<string | null>(vault === "off" ? uri : null);
+
+  useEffect(() => {
+    if (vault === "off") {
+      setSource(uri);
+      return;
+    }
+    let cancelled = false;
+    setSource(null);
+    readFileBytes(uri)
+      .then(bytes => !cancelled && setSource(`data:image/jpeg;base64,${toBase64(bytes)}`))
+      .catch(() => !cancelled && setSource(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, vault]);
+
+  return source;
+}
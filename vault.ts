@@ -0,0 +1,164 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import { getRandomBytes } from "expo-crypto";
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { bytesToUtf8, concatBytes, utf8ToBytes } from "@noble/ciphers/utils";
+import { scryptAsync } from "@noble/hashes/scrypt";
+
+const VAULT_KEY = "vault";
+const VAULT_VERSION = 1;
+/** scrypt cost; stored with the vault so that it can be raised for new vaults only. */
+const SCRYPT_N = 2 ** 14;
+const NONCE_LENGTH = 24;
+/** Encrypted strings carry this prefix so that plain values left by an interrupted change still read. */
+const TEXT_PREFIX = "enc:v1:";
+/** Encrypted files start with these bytes. */
+const FILE_MAGIC = utf8ToBytes("RBV1");
+const CHECK_TEXT = "rubel-engine-vault";
+
+/** Stored in plain text next to the encrypted data; holds nothing that helps guess the passphrase. */
+interface VaultMeta {
+  version: number;
+  salt: string;
+  n: number;
+  /** `CHECK_TEXT` sealed with the key, to tell a wrong passphrase from damaged data. */
+  check: string;
+}
+
+export type VaultStatus = "off" | "locked" | "unlocked";
+
+/** Thrown when encrypted data is read while the vault is locked. */
+export class VaultLockedError extends Error {
+  constructor() {
+    super("The vault is locked");
+    this.name = "VaultLockedError";
+  }
+}
+
+let meta: VaultMeta | null = null;
+let key: Uint8Array | null = null;
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function sealBytes(bytes: Uint8Array, withKey: Uint8Array): Uint8Array {
+  const nonce = getRandomBytes(NONCE_LENGTH);
+  return concatBytes(nonce, xchacha20poly1305(withKey, nonce).encrypt(bytes));
+}
+
+function openBytes(sealed: Uint8Array, withKey: Uint8Array): Uint8Array {
+  return xchacha20poly1305(withKey, sealed.subarray(0, NONCE_LENGTH)).decrypt(sealed.subarray(NONCE_LENGTH));
+}
+
+function deriveKey(passphrase: string, salt: Uint8Array, n: number): Promise<Uint8Array> {
+  return scryptAsync(passphrase, salt, { N: n, r: 8, p: 1, dkLen: 32 });
+}
+
+/** Reads the vault settings; call once before anything else in this module. */
+export async function readVault(): Promise<VaultStatus> {
+  const raw = await AsyncStorage.getItem(VAULT_KEY);
+  meta = raw ? JSON.parse(raw) : null;
+  return vaultStatus();
+}
+
+export function vaultStatus(): VaultStatus {
+  if (!meta) return "off";
+  return key ? "unlocked" : "locked";
+}
+
+/** The key to write with, or null when data is stored in plain text. */
+export function activeKey(): Uint8Array | null {
+  return key;
+}
+
+/** Resolves false for a wrong passphrase. */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  if (!meta) return true;
+  const candidate = await deriveKey(passphrase, fromBase64(meta.salt), meta.n);
+  try {
+    openText(meta.check, candidate);
+  } catch (_) {
+    return false;
+  }
+  key = candidate;
+  return true;
+}
+
+/** Forgets the key; flush pending writes first. */
+export function lockVault(): void {
+  key = null;
+}
+
+/**
+ * Derives a key from a new passphrase, saves the vault settings and starts
+ * writing with the key. Existing data is re-encrypted by the caller.
+ */
+export async function createVault(passphrase: string): Promise<Uint8Array> {
+  const salt = getRandomBytes(16);
+  const derived = await deriveKey(passphrase, salt, SCRYPT_N);
+  const created: VaultMeta = { version: VAULT_VERSION, salt: toBase64(salt), n: SCRYPT_N, check: sealText(CHECK_TEXT, derived) };
+  await AsyncStorage.setItem(VAULT_KEY, JSON.stringify(created));
+  meta = created;
+  key = derived;
+  return derived;
+}
+
+/** Turns the vault off once the caller has written everything back in plain text. */
+export async function removeVault(): Promise<void> {
+  await AsyncStorage.removeItem(VAULT_KEY);
+  meta = null;
+  key = null;
+}
+
+export function sealText(text: string, withKey: Uint8Array | null = key): string {
+  if (!withKey) return text;
+  return TEXT_PREFIX + toBase64(sealBytes(utf8ToBytes(text), withKey));
+}
+
+/** Decrypts a value written by `sealText`; plain values are returned as they are. */
+export function openText(stored: string, withKey: Uint8Array | null = key): string {
+  if (!stored.startsWith(TEXT_PREFIX)) return stored;
+  if (!withKey) throw new VaultLockedError();
+  return bytesToUtf8(openBytes(fromBase64(stored.slice(TEXT_PREFIX.length)), withKey));
+}
+
+function isSealedFile(bytes: Uint8Array): boolean {
+  return bytes.length >= FILE_MAGIC.length && FILE_MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/** Reads a file, decrypting it if it was sealed. */
+export async function readFileBytes(uri: string): Promise<Uint8Array> {
+  const bytes = fromBase64(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }));
+  if (!isSealedFile(bytes)) return bytes;
+  if (!key) throw new VaultLockedError();
+  return openBytes(bytes.subarray(FILE_MAGIC.length), key);
+}
+
+/** Writes a file, sealed when the vault is on. Its folder must exist. */
+export async function writeFileBytes(uri: string, bytes: Uint8Array, withKey: Uint8Array | null = key): Promise<void> {
+  const data = withKey ? concatBytes(FILE_MAGIC, sealBytes(bytes, withKey)) : bytes;
+  await FileSystem.writeAsStringAsync(uri, toBase64(data), { encoding: FileSystem.EncodingType.Base64 });
+}
+
+/** Rewrites a file sealed with `withKey`, or in plain text for null. */
+export async function resealFile(uri: string, withKey: Uint8Array | null): Promise<void> {
+  if (!(await FileSystem.getInfoAsync(uri)).exists) return;
+  await writeFileBytes(uri, await readFileBytes(uri), withKey);
+}
+
+/** Encrypts a file just written in plain text, such as a new photo, when the vault is on. */
+export async function sealNewFile(uri: string): Promise<void> {
+  if (key) await resealFile(uri, key);
+}